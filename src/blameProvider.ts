@@ -1,27 +1,95 @@
 import * as vscode from 'vscode';
-import { GitService, BlameLineInfo } from './gitService';
+import * as path from 'path';
+import { GitService, BlameLineInfo, UNCOMMITTED_HASH, INDEX_REVISION, EMPTY_TREE_REVISION } from './gitService';
+import { GitServiceManager } from './gitServiceManager';
+import { parseGitHistoryUri, toGitHistoryUri } from './contentProvider';
+import { formatTimeAgo, formatDate, getInitials, renderTemplate } from './formatting';
+
+type BlameMode = 'gutter' | 'currentLine' | 'both';
+type HeatmapScale = 'linear' | 'logarithmic';
+type HeatmapRange = 'file' | 'repository';
+
+// Overview ruler marks only cover the newest half of the age range, split into buckets
+// since the ruler color can't vary per decoration
+const HEATMAP_RULER_BUCKETS = 5;
+const HEATMAP_RULER_COLOR = [76, 175, 80]; // green
+
+// What a rendered blame needs besides the per-line data, kept to redraw the current line
+interface BlameContext {
+  filePath: string;
+  relativePath: string;
+  repoRoot: string | undefined;
+  githubUrl: string | null;
+  pathsAtCommit: Record<string, string>; // commit hash -> the file's path in that commit
+  heatmap?: { oldest: number; newest: number }; // timestamps in ms
+}
+
+interface LineHighlight {
+  label: string;
+  matches: (lineInfo: BlameLineInfo) => boolean;
+}
 
 export class GitBlameProvider {
   private textDecorationType: vscode.TextEditorDecorationType;
   private hoverDecorationType: vscode.TextEditorDecorationType;
+  private currentLineDecorationType: vscode.TextEditorDecorationType;
+  private heatmapRulerDecorationTypes: vscode.TextEditorDecorationType[];
+  private highlightDecorationType: vscode.TextEditorDecorationType;
+  private statusBarItem: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = []; // listeners, commands and the hover provider
   private enabled: boolean = true;
   private currentEditor: vscode.TextEditor | undefined;
   private blameData: Map<string, BlameLineInfo[]> = new Map();
+  private blameVersions: Map<string, number> = new Map(); // document uri -> version blameData was computed for
+  private blameContexts: Map<string, BlameContext> = new Map();
+  private pendingUpdates: Map<string, NodeJS.Timeout> = new Map();
+  private highlight: LineHighlight | undefined;
+  private highlightedLines: Map<string, number[]> = new Map(); // document uri -> sorted 0-based line indexes
   private fontSize: number;
   private fontFamily: string;
   private backgroundEnabled: boolean;
   private newestColor: string;
   private oldestColor: string;
+  private heatmapScale: HeatmapScale;
+  private heatmapRange: HeatmapRange;
+  private blameMode: BlameMode;
+  private template: string;
+  private dateFormat: string;
 
-  constructor(private gitService: GitService) {
+  constructor(private gitServices: GitServiceManager) {
     const config = vscode.workspace.getConfiguration('gitHistory');
     this.fontSize = config.get('blameFontSize', 12);
     this.fontFamily = config.get('blameFontFamily', 'Menlo, Monaco, \'Courier New\', monospace');
     this.backgroundEnabled = config.get('blameBackgroundEnabled', false);
     this.newestColor = config.get('blameNewestColor', '#1a3d1a');
     this.oldestColor = config.get('blameOldestColor', '#3d1a1a');
+    this.heatmapScale = config.get('blameHeatmapScale', 'linear');
+    this.heatmapRange = config.get('blameHeatmapRange', 'file');
+    this.blameMode = config.get('blameMode', 'gutter');
+    this.template = config.get('blameTemplate', '${date} ${author:12}');
+    this.dateFormat = config.get('blameDateFormat', 'DD/MM/YYYY');
 
     this.textDecorationType = this.createTextDecorationType();
+    this.heatmapRulerDecorationTypes = this.createHeatmapRulerDecorationTypes();
+
+    // End-of-line annotation for the cursor line(s) in current line mode
+    this.currentLineDecorationType = vscode.window.createTextEditorDecorationType({
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 3em'
+      }
+    });
+
+    this.highlightDecorationType = vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+      overviewRulerLane: vscode.OverviewRulerLane.Center,
+      overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.rangeHighlightForeground')
+    });
+
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
 
     // Decoration type for hover area (invisible, narrow range)
     this.hoverDecorationType = vscode.window.createTextEditorDecorationType({
@@ -30,33 +98,68 @@ export class GitBlameProvider {
     });
 
     // Listen for configuration changes
-    vscode.workspace.onDidChangeConfiguration(e => {
+    this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
       if (e.affectsConfiguration('gitHistory.showBlame')) {
         this.updateEnabledState();
       }
-      if (e.affectsConfiguration('gitHistory.blameFontSize') || e.affectsConfiguration('gitHistory.blameFontFamily') || e.affectsConfiguration('gitHistory.blameBackgroundEnabled') || e.affectsConfiguration('gitHistory.blameNewestColor') || e.affectsConfiguration('gitHistory.blameOldestColor')) {
+      if (e.affectsConfiguration('gitHistory.blameMode')) {
+        this.blameMode = vscode.workspace.getConfiguration('gitHistory').get('blameMode', 'gutter');
+        this.updateEnabledState();
+      }
+      if (e.affectsConfiguration('gitHistory.blameFontSize') || e.affectsConfiguration('gitHistory.blameFontFamily') || e.affectsConfiguration('gitHistory.blameBackgroundEnabled') || e.affectsConfiguration('gitHistory.blameNewestColor') || e.affectsConfiguration('gitHistory.blameOldestColor') || e.affectsConfiguration('gitHistory.blameHeatmapScale') || e.affectsConfiguration('gitHistory.blameHeatmapRange') || e.affectsConfiguration('gitHistory.blameTemplate') || e.affectsConfiguration('gitHistory.blameDateFormat')) {
         this.updateFontSettings();
       }
-    });
+      if (e.affectsConfiguration('gitHistory.blameIgnoreWhitespace') || e.affectsConfiguration('gitHistory.blameMoveDetection') || e.affectsConfiguration('gitHistory.blameUseIgnoreRevsFile') || e.affectsConfiguration('gitHistory.blameIgnoreRevsFiles')) {
+        // Unsaved buffers are cached per version, which no longer matches the new options
+        this.blameVersions.clear();
+        this.updateEnabledState();
+      }
+    }));
 
     // Listen for active editor changes
-    vscode.window.onDidChangeActiveTextEditor(editor => {
+    this.disposables.push(vscode.window.onDidChangeActiveTextEditor(editor => {
       this.currentEditor = editor;
+      this.statusBarItem.hide();
       if (editor && this.enabled) {
         this.showBlame(editor);
+      } else if (editor) {
+        this.applyHighlight(editor);
       }
-    });
+    }));
+
+    // Keep the current line annotation and status bar on the cursor
+    this.disposables.push(vscode.window.onDidChangeTextEditorSelection(e => {
+      if (this.enabled) {
+        this.updateCurrentLine(e.textEditor);
+      }
+    }));
+
+    // Both sides of a diff editor are visible but only one of them is active
+    this.disposables.push(vscode.window.onDidChangeVisibleTextEditors(() => {
+      if (this.enabled) {
+        this.showHistoricalBlame();
+      }
+    }));
 
     // Listen for document changes (save)
-    vscode.workspace.onDidSaveTextDocument(document => {
+    this.disposables.push(vscode.workspace.onDidSaveTextDocument(document => {
+      // The on-disk blame is cached, so drop it now that the file changed
+      this.gitServices.getServiceForFile(document.fileName)?.invalidateCache(document.fileName);
       const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
       if (editor && this.enabled) {
         this.showBlame(editor);
       }
-    });
+    }));
+
+    // Re-blame the unsaved buffer while typing so annotations stay on the right lines
+    this.disposables.push(vscode.workspace.onDidChangeTextDocument(e => {
+      if (this.enabled && e.document.uri.scheme === 'file' && e.contentChanges.length > 0) {
+        this.scheduleUpdate(e.document);
+      }
+    }));
 
     // Register command to view commit files from blame
-    vscode.commands.registerCommand('gitHistory.viewBlameCommit', async (commitHash: string, filePath: string) => {
+    this.disposables.push(vscode.commands.registerCommand('gitHistory.viewBlameCommit', async (commitHash: string, filePath: string) => {
       if (!commitHash) {
         return;
       }
@@ -69,7 +172,69 @@ export class GitBlameProvider {
       
       // Then, open the diff for the current file
       await vscode.commands.executeCommand('gitHistory.viewDiff', commitHash, filePath);
-    });
+    }));
+
+    // Register command to open a file as it was at a revision, scrolled to a line
+    this.disposables.push(vscode.commands.registerCommand('gitHistory.openFileAtRevision', async (revision: string, filePath: string, lineNumber?: number) => {
+      if (!revision || !filePath) {
+        return;
+      }
+      await this.openFileAtRevision(revision, filePath, lineNumber);
+    }));
+
+    // Register command to walk a line back through history: blame the file as of the line's parent commit
+    this.disposables.push(vscode.commands.registerCommand('gitHistory.blamePriorRevision', async (revision: string, filePath: string, lineNumber?: number) => {
+      if (!revision || !filePath) {
+        return;
+      }
+
+      const editor = await this.openFileAtRevision(revision, filePath, lineNumber);
+
+      // The active editor listener only annotates while blame is enabled
+      if (!this.enabled) {
+        await this.showBlame(editor);
+      }
+    }));
+
+    // The hunk that introduced a line needs a diff per commit, so it's only fetched when hovered
+    this.disposables.push(vscode.languages.registerHoverProvider([{ scheme: 'file' }, { scheme: 'git-history' }], {
+      provideHover: (document, position) => this.provideHunkHover(document, position)
+    }));
+
+    // Register commands to highlight every line from a commit or author, from a blame hover,
+    // a CommitItem or the cursor line when run from the command palette
+    this.disposables.push(vscode.commands.registerCommand('gitHistory.highlightCommitLines', async (item?: any) => {
+      const commitHash: string | undefined = typeof item === 'string'
+        ? item
+        : item?.commit?.hash ?? this.getCursorLineInfo()?.commitHash;
+      if (!commitHash) {
+        return;
+      }
+      await this.setHighlight({
+        label: commitHash === UNCOMMITTED_HASH ? 'uncommitted changes' : `commit ${commitHash.substring(0, 7)}`,
+        matches: lineInfo => lineInfo.commitHash === commitHash
+      });
+    }));
+
+    this.disposables.push(vscode.commands.registerCommand('gitHistory.highlightAuthorLines', async (item?: any) => {
+      const source = item?.commit ?? item ?? this.getCursorLineInfo();
+      const author: string | undefined = source?.author;
+      const authorEmail: string | undefined = source?.authorEmail;
+      if (!author && !authorEmail) {
+        return;
+      }
+      // Names vary between machines more often than emails, so prefer matching on the email
+      await this.setHighlight({
+        label: author || authorEmail!,
+        matches: authorEmail
+          ? lineInfo => lineInfo.authorEmail === authorEmail
+          : lineInfo => lineInfo.author === author
+      });
+    }));
+
+    this.disposables.push(vscode.commands.registerCommand('gitHistory.nextHighlightedLine', () => this.revealHighlight('next')));
+    this.disposables.push(vscode.commands.registerCommand('gitHistory.previousHighlightedLine', () => this.revealHighlight('previous')));
+    this.disposables.push(vscode.commands.registerCommand('gitHistory.clearHighlights', () => this.setHighlight(undefined)));
 
     // Initial state
     this.updateEnabledState();
@@ -85,8 +250,20 @@ export class GitBlameProvider {
     
     if (!this.enabled) {
       this.clearBlame();
-    } else if (this.currentEditor) {
-      this.showBlame(this.currentEditor);
+    } else {
+      if (this.currentEditor) {
+        this.showBlame(this.currentEditor);
+      }
+      this.showHistoricalBlame();
+    }
+  }
+
+  // Annotates every visible git-history document, e.g. the left side of a diff
+  private showHistoricalBlame(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor !== this.currentEditor && editor.document.uri.scheme === 'git-history') {
+        this.showBlame(editor);
+      }
     }
   }
 
@@ -99,43 +276,105 @@ export class GitBlameProvider {
     await config.update('showBlame', this.enabled, true);
     console.log('[GitHistory] Config updated');
     
-    if (this.enabled && this.currentEditor) {
-      console.log('[GitHistory] Showing blame for current editor');
-      await this.showBlame(this.currentEditor);
-      console.log('[GitHistory] Blame display complete');
+    if (this.enabled) {
+      if (this.currentEditor) {
+        console.log('[GitHistory] Showing blame for current editor');
+        await this.showBlame(this.currentEditor);
+        console.log('[GitHistory] Blame display complete');
+      }
+      this.showHistoricalBlame();
     } else {
       console.log('[GitHistory] Clearing blame');
       this.clearBlame();
     }
   }
 
+  private scheduleUpdate(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const pending = this.pendingUpdates.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingUpdates.set(key, setTimeout(() => {
+      this.pendingUpdates.delete(key);
+      const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
+      if (editor && this.enabled) {
+        this.showBlame(editor);
+      }
+    }, 500));
+  }
+
   private clearBlame(): void {
     vscode.window.visibleTextEditors.forEach(editor => {
       editor.setDecorations(this.textDecorationType, []);
       editor.setDecorations(this.hoverDecorationType, []);
+      editor.setDecorations(this.currentLineDecorationType, []);
+      this.heatmapRulerDecorationTypes.forEach(type => editor.setDecorations(type, []));
     });
+    this.statusBarItem.hide();
     this.blameData.clear();
+    this.blameVersions.clear();
+    this.blameContexts.clear();
+  }
+
+  private resolveBlameTarget(document: vscode.TextDocument): { filePath: string; revision?: string } | undefined {
+    // Historical documents are blamed at the revision they were opened from
+    if (document.uri.scheme === 'git-history') {
+      const { commitHash, filePath, combined } = parseGitHistoryUri(document.uri);
+      // git blame can't read from the index or the empty tree, and combined diffs aren't file content
+      if (commitHash === INDEX_REVISION || commitHash === EMPTY_TREE_REVISION || combined) {
+        return undefined;
+      }
+      return { filePath, revision: commitHash };
+    }
+    if (document.uri.scheme === 'file') {
+      return { filePath: document.fileName };
+    }
+    return undefined;
+  }
+
+  private async fetchBlame(document: vscode.TextDocument, gitService: GitService, filePath: string, revision?: string): Promise<BlameLineInfo[]> {
+    const key = document.uri.toString();
+    if (revision || !document.isDirty) {
+      return gitService.getBlame(filePath, revision);
+    }
+    if (this.blameVersions.get(key) === document.version && this.blameData.has(key)) {
+      return this.blameData.get(key)!;
+    }
+    // Unsaved edits: blame the buffer contents so new lines show as not committed yet
+    return gitService.getBlame(filePath, undefined, document.getText());
   }
 
   private async showBlame(editor: vscode.TextEditor): Promise<void> {
     console.log(`[GitHistory] showBlame called for: ${editor.document.fileName}`);
-    const filePath = editor.document.fileName;
     const uri = editor.document.uri;
-    
-    if (uri.scheme !== 'file') {
+    const target = this.resolveBlameTarget(editor.document);
+    if (!target) {
       console.log('[GitHistory] Skipping - not a file scheme');
       return;
     }
+    const { filePath, revision } = target;
 
-    if (filePath.includes('git-history')) {
-      console.log('[GitHistory] Skipping - git-history file');
+    const gitService = this.gitServices.getServiceForFile(filePath);
+    if (!gitService) {
+      console.log('[GitHistory] Skipping - no repository for file');
       return;
     }
 
+    const document = editor.document;
+    const key = uri.toString();
+    const version = document.version;
+
     try {
       console.log('[GitHistory] Fetching blame data...');
-      const blameInfo = await this.gitService.getBlame(filePath);
+      const blameInfo = await this.fetchBlame(document, gitService, filePath, revision);
       console.log(`[GitHistory] Got ${blameInfo?.length || 0} blame entries`);
+
+      // The buffer changed while blaming; the update scheduled for that edit will redraw
+      if (document.version !== version) {
+        return;
+      }
       
       if (!blameInfo || blameInfo.length === 0) {
         console.log('[GitHistory] No blame data found');
@@ -143,130 +382,474 @@ export class GitBlameProvider {
       }
 
       // Get GitHub URL if available
-      const githubUrl = await this.gitService.getGitHubRemoteUrl(filePath);
+      const githubUrl = await gitService.getGitHubRemoteUrl(filePath);
+
+      this.blameData.set(key, blameInfo);
+      this.blameVersions.set(key, version);
+      const relativePath = gitService.getRelativePath(filePath);
+      // Only files with lines attributed to another path need their history across renames
+      const pathsAtCommit = blameInfo.some(lineInfo => lineInfo.filename && lineInfo.filename !== relativePath)
+        ? await gitService.getPathsAcrossRenames(filePath)
+        : {};
+      const context: BlameContext = {
+        filePath,
+        relativePath,
+        repoRoot: gitService.getRepoRoot(filePath),
+        githubUrl,
+        pathsAtCommit
+      };
+      if (this.backgroundEnabled) {
+        // Ages are measured up to now, so a file untouched for a long time reads as old
+        // even if its commits were made close together
+        // A loop rather than Math.min(...), which runs out of arguments on very large files
+        let oldest = Infinity;
+        for (const lineInfo of blameInfo) {
+          const time = Date.parse(lineInfo.date);
+          if (!isNaN(time) && time < oldest) {
+            oldest = time;
+          }
+        }
+        if (this.heatmapRange === 'repository') {
+          const startDate = await gitService.getRepositoryStartDate(filePath);
+          if (startDate) {
+            oldest = Math.min(oldest, Date.parse(startDate));
+          }
+        }
+        context.heatmap = { oldest, newest: Date.now() };
+      }
+      this.blameContexts.set(key, context);
 
-      // Clear existing decorations first
-      editor.setDecorations(this.textDecorationType, []);
-      editor.setDecorations(this.hoverDecorationType, []);
-      console.log('[GitHistory] Cleared existing decorations');
+      if (this.blameMode === 'currentLine') {
+        editor.setDecorations(this.textDecorationType, []);
+        editor.setDecorations(this.hoverDecorationType, []);
+      } else {
+        this.renderGutter(editor, blameInfo, context);
+      }
+      this.renderHeatmapRuler(editor, blameInfo, context);
+      this.updateCurrentLine(editor);
+      await this.applyHighlight(editor);
+    } catch (error) {
+      console.error('[GitHistory] Error showing blame:', error);
+    }
+  }
 
-      this.blameData.set(filePath, blameInfo);
+  private renderGutter(editor: vscode.TextEditor, blameInfo: BlameLineInfo[], context: BlameContext): void {
+    // Clear existing decorations first
+    editor.setDecorations(this.textDecorationType, []);
+    editor.setDecorations(this.hoverDecorationType, []);
+    console.log('[GitHistory] Cleared existing decorations');
+
+    const textDecorations: vscode.DecorationOptions[] = [];
+    const hoverDecorations: vscode.DecorationOptions[] = [];
+
+    // Render every annotation first so the column is as wide as the longest one
+    const annotations = new Map<BlameLineInfo, string>();
+    let totalWidth = 0;
+    for (const lineInfo of blameInfo) {
+      const annotationText = this.renderAnnotation(lineInfo);
+      annotations.set(lineInfo, annotationText);
+      totalWidth = Math.max(totalWidth, annotationText.length);
+    }
+    
+    for (const lineInfo of blameInfo) {
+      const lineIndex = lineInfo.lineNumber - 1;
+      if (lineIndex < 0 || lineIndex >= editor.document.lineCount) {
+        continue;
+      }
 
-      const textDecorations: vscode.DecorationOptions[] = [];
-      const hoverDecorations: vscode.DecorationOptions[] = [];
+      const line = editor.document.lineAt(lineIndex);
+      const annotationText = annotations.get(lineInfo)!;
+      // Ensure the entire annotation has a fixed width
+      const text = annotationText + '\u00A0'.repeat(totalWidth - annotationText.length);
 
-      // Calculate unique commits for background coloring
-      const uniqueCommits: string[] = [];
-      if (this.backgroundEnabled) {
-        const seen = new Set<string>();
-        for (const lineInfo of blameInfo) {
-          if (!seen.has(lineInfo.commitHash)) {
-            seen.add(lineInfo.commitHash);
-            uniqueCommits.push(lineInfo.commitHash);
+      const hoverMessage = this.createHoverMessage(lineInfo, context);
+
+      const range = line.range;
+
+      // Calculate background color based on the commit's age
+      let backgroundColor: string | undefined;
+      if (context.heatmap) {
+        const ratio = this.getAgeRatio(lineInfo.date, context.heatmap);
+        backgroundColor = this.interpolateColor(this.newestColor, this.oldestColor, ratio);
+      }
+
+      // Text decoration (visible, no hover)
+      const textDecoration: vscode.DecorationOptions = {
+        range: range,
+        renderOptions: {
+          before: {
+            contentText: text,
+            backgroundColor: backgroundColor
           }
         }
-      }
+      };
+      textDecorations.push(textDecoration);
+
+      // Hover decoration (invisible, narrow range at start of line, has hover)
+      // Create a zero-width range at the very beginning of the line
+      const hoverRange = new vscode.Range(lineIndex, 0, lineIndex, 0);
+      const hoverDecoration: vscode.DecorationOptions = {
+        range: hoverRange,
+        hoverMessage: hoverMessage
+      };
+      hoverDecorations.push(hoverDecoration);
+    }
 
-      // Fixed widths for consistent alignment
-      const dateWidth = 10; // DD/MM/YYYY
-      const authorWidth = 12;
-      const totalWidth = dateWidth + 1 + authorWidth; // date + space + author
-      
+    console.log(`[GitHistory] Setting ${textDecorations.length} text decorations and ${hoverDecorations.length} hover decorations`);
+    editor.setDecorations(this.textDecorationType, textDecorations);
+    editor.setDecorations(this.hoverDecorationType, hoverDecorations);
+    console.log('[GitHistory] Decorations set successfully');
+  }
+
+  private async openFileAtRevision(revision: string, filePath: string, lineNumber?: number): Promise<vscode.TextEditor> {
+    const document = await vscode.workspace.openTextDocument(toGitHistoryUri(revision, filePath));
+    const line = Math.min(Math.max((lineNumber || 1) - 1, 0), Math.max(document.lineCount - 1, 0));
+    return vscode.window.showTextDocument(document, {
+      preview: true,
+      selection: new vscode.Range(line, 0, line, 0)
+    });
+  }
+
+  private async provideHunkHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const key = document.uri.toString();
+    const blameInfo = this.blameData.get(key);
+    const context = this.blameContexts.get(key);
+    if (!this.enabled || !blameInfo || !context || this.blameVersions.get(key) !== document.version) {
+      return undefined;
+    }
+
+    // Only answer where the blame hover shows up: the gutter annotation at the start of the
+    // line, or the current line annotation at its end
+    const line = document.lineAt(position.line);
+    const onGutter = this.blameMode !== 'currentLine' && position.character === 0;
+    const onAnnotation = this.blameMode !== 'gutter' && position.character === line.range.end.character;
+    if (!onGutter && !onAnnotation) {
+      return undefined;
+    }
+
+    const lineInfo = this.findLineInfo(blameInfo, position.line + 1);
+    const gitService = this.gitServices.getServiceForFile(context.filePath);
+    if (!lineInfo || !gitService || lineInfo.commitHash === UNCOMMITTED_HASH) {
+      return undefined;
+    }
+
+    const pathAtCommit = lineInfo.filename ?? context.relativePath;
+    const filePathAtCommit = context.repoRoot ? path.join(context.repoRoot, pathAtCommit) : context.filePath;
+    const hunk = await gitService.getLineHunk(lineInfo.commitHash, context.filePath, pathAtCommit, lineInfo.originalLineNumber);
+
+    const hoverMessage = new vscode.MarkdownString();
+    hoverMessage.isTrusted = true;
+
+    if (hunk) {
+      // The fence has to be longer than any backtick run inside the hunk
+      const longestRun = Math.max(0, ...(hunk.match(/`+/g) || []).map(run => run.length));
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      hoverMessage.appendMarkdown(`${fence}diff\n${hunk}\n${fence}\n\n`);
+    }
+
+    const actions = [
+      `[Open full diff](command:gitHistory.viewDiff?${encodeURIComponent(JSON.stringify([lineInfo.commitHash, filePathAtCommit]))})`,
+      `[Open file at this revision](command:gitHistory.openFileAtRevision?${encodeURIComponent(JSON.stringify([lineInfo.commitHash, filePathAtCommit, lineInfo.originalLineNumber]))})`
+    ];
+    hoverMessage.appendMarkdown(`${actions.join(' &nbsp; | &nbsp; ')}  \n`);
+
+    return new vscode.Hover(hoverMessage, new vscode.Range(position, position));
+  }
+
+  private async setHighlight(highlight: LineHighlight | undefined): Promise<void> {
+    this.highlight = highlight;
+    this.highlightedLines.clear();
+    await vscode.commands.executeCommand('setContext', 'gitHistory.hasHighlights', !!highlight);
+
+    for (const editor of vscode.window.visibleTextEditors) {
+      await this.applyHighlight(editor);
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (highlight && editor) {
+      const count = this.highlightedLines.get(editor.document.uri.toString())?.length || 0;
+      vscode.window.setStatusBarMessage(`Git History: ${count} line${count === 1 ? '' : 's'} from ${highlight.label}`, 5000);
+    }
+  }
+
+  private async applyHighlight(editor: vscode.TextEditor): Promise<void> {
+    const key = editor.document.uri.toString();
+    if (!this.highlight) {
+      editor.setDecorations(this.highlightDecorationType, []);
+      this.highlightedLines.delete(key);
+      return;
+    }
+
+    const highlight = this.highlight;
+    const blameInfo = await this.getBlameForHighlight(editor);
+    if (highlight !== this.highlight) {
+      return;
+    }
+
+    const lineIndexes = (blameInfo || [])
+      .filter(lineInfo => highlight.matches(lineInfo))
+      .map(lineInfo => lineInfo.lineNumber - 1)
+      .filter(lineIndex => lineIndex >= 0 && lineIndex < editor.document.lineCount)
+      .sort((a, b) => a - b);
+
+    this.highlightedLines.set(key, lineIndexes);
+    editor.setDecorations(this.highlightDecorationType, lineIndexes.map(lineIndex => new vscode.Range(lineIndex, 0, lineIndex, 0)));
+  }
+
+  // Highlighting works with blame annotations turned off, so fetch the data if it isn't loaded
+  private async getBlameForHighlight(editor: vscode.TextEditor): Promise<BlameLineInfo[] | undefined> {
+    const key = editor.document.uri.toString();
+    if (this.blameData.has(key) && this.blameVersions.get(key) === editor.document.version) {
+      return this.blameData.get(key);
+    }
+
+    const target = this.resolveBlameTarget(editor.document);
+    const gitService = target ? this.gitServices.getServiceForFile(target.filePath) : undefined;
+    if (!target || !gitService) {
+      return undefined;
+    }
+    return this.fetchBlame(editor.document, gitService, target.filePath, target.revision);
+  }
+
+  // Jumps between blocks of consecutive highlighted lines rather than line by line
+  private revealHighlight(direction: 'next' | 'previous'): void {
+    const editor = vscode.window.activeTextEditor;
+    const lineIndexes = editor ? this.highlightedLines.get(editor.document.uri.toString()) : undefined;
+    if (!editor || !lineIndexes || lineIndexes.length === 0) {
+      vscode.window.showInformationMessage('Git History: No highlighted lines in this editor');
+      return;
+    }
+
+    const blockStarts = lineIndexes.filter((lineIndex, i) => i === 0 || lineIndexes[i - 1] !== lineIndex - 1);
+    const cursorLine = editor.selection.active.line;
+    const target = direction === 'next'
+      ? blockStarts.find(lineIndex => lineIndex > cursorLine) ?? blockStarts[0]
+      : [...blockStarts].reverse().find(lineIndex => lineIndex < cursorLine) ?? blockStarts[blockStarts.length - 1];
+
+    const position = new vscode.Position(target, 0);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+
+  private getCursorLineInfo(): BlameLineInfo | undefined {
+    const editor = vscode.window.activeTextEditor;
+    const blameInfo = editor ? this.blameData.get(editor.document.uri.toString()) : undefined;
+    return editor && blameInfo ? this.findLineInfo(blameInfo, editor.selection.active.line + 1) : undefined;
+  }
+
+  private renderHeatmapRuler(editor: vscode.TextEditor, blameInfo: BlameLineInfo[], context: BlameContext): void {
+    const bucketRanges: vscode.Range[][] = this.heatmapRulerDecorationTypes.map(() => []);
+
+    if (context.heatmap) {
       for (const lineInfo of blameInfo) {
         const lineIndex = lineInfo.lineNumber - 1;
         if (lineIndex < 0 || lineIndex >= editor.document.lineCount) {
           continue;
         }
-
-        const line = editor.document.lineAt(lineIndex);
-        const relativeTime = this.formatRelativeTime(lineInfo.date);
-        const author = this.truncateAuthor(lineInfo.author, authorWidth);
-        const annotationText = `${relativeTime}\u00A0${author}`;
-        // Ensure the entire annotation has a fixed width
-        const text = annotationText + '\u00A0'.repeat(totalWidth - annotationText.length);
-
-        // Create hover message
-        const hoverMessage = new vscode.MarkdownString();
-        hoverMessage.appendMarkdown(`**Commit:** [${lineInfo.commitHash.substring(0, 7)}](command:gitHistory.viewBlameCommit?${encodeURIComponent(JSON.stringify([lineInfo.commitHash, filePath]))})  \n`);
-        hoverMessage.appendMarkdown(`**Author:** ${lineInfo.author}${lineInfo.authorEmail ? ` ${lineInfo.authorEmail}` : ''}  \n`);
-        const date = new Date(lineInfo.date);
-        hoverMessage.appendMarkdown(`**Date:** ${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}  \n`);
-        
-        // Add GitHub link if available
-        if (githubUrl) {
-          const commitUrl = `${githubUrl}/commit/${lineInfo.commitHash}`;
-          hoverMessage.appendMarkdown(`[Copy sha](command:gitHistory.copyCommitShaFromBlame?${encodeURIComponent(JSON.stringify([lineInfo.commitHash]))}) &nbsp; | &nbsp; [View on GitHub](${commitUrl})  \n`);
-        } else {
-          hoverMessage.appendMarkdown(`[Copy sha](command:gitHistory.copyCommitShaFromBlame?${encodeURIComponent(JSON.stringify([lineInfo.commitHash]))})  \n`);
-        }
-        
-        hoverMessage.appendMarkdown(`\n`);
-        hoverMessage.appendMarkdown(`${lineInfo.summary}  \n`);
-        
-        hoverMessage.isTrusted = true;
-
-        const range = line.range;
-
-        // Calculate background color based on commit index (grouped by unique commits)
-        let backgroundColor: string | undefined;
-        if (this.backgroundEnabled && uniqueCommits.length > 1) {
-          const commitIndex = uniqueCommits.indexOf(lineInfo.commitHash);
-          const ratio = commitIndex / (uniqueCommits.length - 1);
-          backgroundColor = this.interpolateColor(this.newestColor, this.oldestColor, ratio);
+        const ratio = this.getAgeRatio(lineInfo.date, context.heatmap);
+        const bucket = Math.floor(ratio * 2 * HEATMAP_RULER_BUCKETS);
+        if (bucket < HEATMAP_RULER_BUCKETS) {
+          bucketRanges[bucket].push(new vscode.Range(lineIndex, 0, lineIndex, 0));
         }
+      }
+    }
 
-        // Text decoration (visible, no hover)
-        const textDecoration: vscode.DecorationOptions = {
-          range: range,
-          renderOptions: {
-            before: {
-              contentText: text,
-              backgroundColor: backgroundColor
-            }
-          }
-        };
-        textDecorations.push(textDecoration);
-
-        // Hover decoration (invisible, narrow range at start of line, has hover)
-        // Create a zero-width range at the very beginning of the line
-        const hoverRange = new vscode.Range(lineIndex, 0, lineIndex, 0);
-        const hoverDecoration: vscode.DecorationOptions = {
-          range: hoverRange,
-          hoverMessage: hoverMessage
-        };
-        hoverDecorations.push(hoverDecoration);
+    this.heatmapRulerDecorationTypes.forEach((type, index) => editor.setDecorations(type, bucketRanges[index]));
+  }
+
+  // 0 for the newest end of the range, 1 for the oldest
+  private getAgeRatio(dateStr: string, heatmap: { oldest: number; newest: number }): number {
+    const time = Date.parse(dateStr);
+    const span = heatmap.newest - heatmap.oldest;
+    if (isNaN(time) || span <= 0) {
+      return 0;
+    }
+
+    const age = Math.max(heatmap.newest - time, 0);
+    let ratio: number;
+    if (this.heatmapScale === 'logarithmic') {
+      // Measured in hours so recent changes get most of the color range
+      const hour = 1000 * 60 * 60;
+      ratio = Math.log1p(age / hour) / Math.log1p(span / hour);
+    } else {
+      ratio = age / span;
+    }
+    return Math.min(Math.max(ratio, 0), 1);
+  }
+
+  private updateCurrentLine(editor: vscode.TextEditor): void {
+    const key = editor.document.uri.toString();
+    const blameInfo = this.blameData.get(key);
+    const context = this.blameContexts.get(key);
+    const isActive = editor === vscode.window.activeTextEditor;
+
+    // While typing the blame is stale until the debounced update lands, so show nothing
+    const isCurrent = blameInfo && context && this.blameVersions.get(key) === editor.document.version;
+    if (!this.enabled || this.blameMode === 'gutter' || !isCurrent) {
+      editor.setDecorations(this.currentLineDecorationType, []);
+      if (isActive) {
+        this.statusBarItem.hide();
       }
+      return;
+    }
 
-      console.log(`[GitHistory] Setting ${textDecorations.length} text decorations and ${hoverDecorations.length} hover decorations`);
-      editor.setDecorations(this.textDecorationType, textDecorations);
-      editor.setDecorations(this.hoverDecorationType, hoverDecorations);
-      console.log('[GitHistory] Decorations set successfully');
-    } catch (error) {
-      console.error('[GitHistory] Error showing blame:', error);
+    const decorations: vscode.DecorationOptions[] = [];
+    const lineIndexes = new Set(editor.selections.map(selection => selection.active.line));
+    for (const lineIndex of lineIndexes) {
+      const lineInfo = this.findLineInfo(blameInfo!, lineIndex + 1);
+      if (!lineInfo || lineIndex >= editor.document.lineCount) {
+        continue;
+      }
+
+      const lineEnd = editor.document.lineAt(lineIndex).range.end;
+      decorations.push({
+        range: new vscode.Range(lineEnd, lineEnd),
+        hoverMessage: this.createHoverMessage(lineInfo, context!),
+        renderOptions: {
+          after: {
+            contentText: this.formatCurrentLineText(lineInfo)
+          }
+        }
+      });
+    }
+    editor.setDecorations(this.currentLineDecorationType, decorations);
+
+    if (isActive) {
+      this.updateStatusBar(this.findLineInfo(blameInfo!, editor.selection.active.line + 1), context!);
+    }
+  }
+
+  private updateStatusBar(lineInfo: BlameLineInfo | undefined, context: BlameContext): void {
+    if (!lineInfo) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    if (lineInfo.commitHash === UNCOMMITTED_HASH) {
+      this.statusBarItem.text = '$(git-commit) Not committed yet';
+      this.statusBarItem.tooltip = undefined;
+      this.statusBarItem.command = undefined;
+    } else {
+      this.statusBarItem.text = `$(git-commit) ${lineInfo.author}, ${formatTimeAgo(lineInfo.date)}`;
+      this.statusBarItem.tooltip = `${lineInfo.summary}\n\n${lineInfo.commitHash.substring(0, 7)} • ${lineInfo.author}`;
+      this.statusBarItem.command = {
+        command: 'gitHistory.viewBlameCommit',
+        title: 'View Commit Files from Blame',
+        arguments: [lineInfo.commitHash, context.filePath]
+      };
+    }
+    this.statusBarItem.show();
+  }
+
+  private formatCurrentLineText(lineInfo: BlameLineInfo): string {
+    if (lineInfo.commitHash === UNCOMMITTED_HASH) {
+      return 'You • Not committed yet';
     }
+    return `${lineInfo.author}, ${formatTimeAgo(lineInfo.date)} • ${lineInfo.summary}`;
   }
 
-  private truncateAuthor(author: string, maxLength: number): string {
-    if (author.length <= maxLength) {
-      return author + '\u00A0'.repeat(maxLength - author.length);
+  private findLineInfo(blameInfo: BlameLineInfo[], lineNumber: number): BlameLineInfo | undefined {
+    // blameInfo is sorted with one entry per line, so the index usually matches
+    const candidate = blameInfo[lineNumber - 1];
+    if (candidate && candidate.lineNumber === lineNumber) {
+      return candidate;
     }
-    return author.substring(0, maxLength - 2) + '..';
+    return blameInfo.find(info => info.lineNumber === lineNumber);
   }
 
-  private formatRelativeTime(dateStr: string): string {
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) {
-      return '\u00A0\u00A0-\u00A0/\u00A0-\u00A0/\u00A0\u00A0';
+  private createHoverMessage(lineInfo: BlameLineInfo, context: BlameContext): vscode.MarkdownString {
+    const { filePath, relativePath, repoRoot, githubUrl } = context;
+    const hoverMessage = new vscode.MarkdownString();
+    hoverMessage.isTrusted = true;
+    // Needed for the colored swatches in the heatmap legend
+    hoverMessage.supportHtml = true;
+
+    if (lineInfo.commitHash === UNCOMMITTED_HASH) {
+      hoverMessage.appendMarkdown(`**Not committed yet**  \n`);
+      return hoverMessage;
     }
-    const day = date.getDate().toString().padStart(2, '0');
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const year = date.getFullYear();
-    return `${day}/${month}/${year}`;
+
+    hoverMessage.appendMarkdown(`**Commit:** [${lineInfo.commitHash.substring(0, 7)}](command:gitHistory.viewBlameCommit?${encodeURIComponent(JSON.stringify([lineInfo.commitHash, filePath]))})  \n`);
+    hoverMessage.appendMarkdown(`**Author:** ${lineInfo.author}${lineInfo.authorEmail ? ` ${lineInfo.authorEmail}` : ''}  \n`);
+    const date = new Date(lineInfo.date);
+    hoverMessage.appendMarkdown(`**Date:** ${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}  \n`);
+
+    // A line written before a rename carries the file's old path, which isn't a move;
+    // it was moved or copied only if that path differs from the file's path at the commit
+    const pathAtCommit = context.pathsAtCommit[lineInfo.commitHash] || relativePath;
+    if (lineInfo.filename && lineInfo.filename !== pathAtCommit) {
+      hoverMessage.appendMarkdown(`**Moved from:** \`${lineInfo.filename}\`  \n`);
+    }
+    
+    const actions = [
+      `[Details](command:gitHistory.showCommitDetails?${encodeURIComponent(JSON.stringify([lineInfo.commitHash, filePath]))})`,
+      `[Copy sha](command:gitHistory.copyCommitShaFromBlame?${encodeURIComponent(JSON.stringify([lineInfo.commitHash]))})`
+    ];
+
+    // Add GitHub link if available
+    if (githubUrl) {
+      const commitUrl = `${githubUrl}/commit/${lineInfo.commitHash}`;
+      actions.push(`[View on GitHub](${commitUrl})`);
+    }
+
+    // Root commits have no previous revision to blame
+    if (lineInfo.previousHash && lineInfo.previousFilename) {
+      const previousPath = repoRoot ? path.join(repoRoot, lineInfo.previousFilename) : lineInfo.previousFilename;
+      const args = [lineInfo.previousHash, previousPath, lineInfo.originalLineNumber];
+      actions.push(`[Blame prior revision](command:gitHistory.blamePriorRevision?${encodeURIComponent(JSON.stringify(args))})`);
+    }
+
+    hoverMessage.appendMarkdown(`${actions.join(' &nbsp; | &nbsp; ')}  \n`);
+
+    const highlightActions = [
+      `[Highlight lines from this commit](command:gitHistory.highlightCommitLines?${encodeURIComponent(JSON.stringify([lineInfo.commitHash]))})`,
+      `[Highlight lines by this author](command:gitHistory.highlightAuthorLines?${encodeURIComponent(JSON.stringify([{ author: lineInfo.author, authorEmail: lineInfo.authorEmail }]))})`
+    ];
+    hoverMessage.appendMarkdown(`${highlightActions.join(' &nbsp; | &nbsp; ')}  \n`);
+    
+    hoverMessage.appendMarkdown(`\n`);
+    hoverMessage.appendMarkdown(`${lineInfo.summary}  \n`);
+
+    if (context.heatmap) {
+      hoverMessage.appendMarkdown(`\n---\n\n${this.createHeatmapLegend(lineInfo, context.heatmap)}  \n`);
+    }
+
+    return hoverMessage;
+  }
+
+  private createHeatmapLegend(lineInfo: BlameLineInfo, heatmap: { oldest: number; newest: number }): string {
+    const swatch = (ratio: number) =>
+      `<span style="background-color:${this.interpolateColor(this.newestColor, this.oldestColor, ratio)};">&nbsp;&nbsp;&nbsp;</span>`;
+    const scale = [0, 0.25, 0.5, 0.75, 1].map(swatch).join('');
+    const ratio = this.getAgeRatio(lineInfo.date, heatmap);
+    const oldest = formatDate(new Date(heatmap.oldest).toISOString(), this.dateFormat);
+    return `**Age:** ${swatch(ratio)} ${formatTimeAgo(lineInfo.date)} &nbsp; now ${scale} ${oldest}`;
+  }
+
+  private renderAnnotation(lineInfo: BlameLineInfo): string {
+    const text = renderTemplate(this.template, {
+      author: lineInfo.author,
+      authorInitials: lineInfo.commitHash === UNCOMMITTED_HASH ? '-' : getInitials(lineInfo.author),
+      sha: lineInfo.commitHash.substring(0, 7),
+      date: formatDate(lineInfo.date, this.dateFormat),
+      ago: formatTimeAgo(lineInfo.date),
+      summary: lineInfo.summary
+    });
+    // Regular spaces would be collapsed in the rendered decoration
+    return text.replace(/ /g, '\u00A0');
   }
 
   dispose(): void {
+    this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+    this.pendingUpdates.clear();
     this.textDecorationType.dispose();
     this.hoverDecorationType.dispose();
+    this.currentLineDecorationType.dispose();
+    this.highlightDecorationType.dispose();
+    this.heatmapRulerDecorationTypes.forEach(type => type.dispose());
+    this.statusBarItem.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
   }
 
   private createTextDecorationType(): vscode.TextEditorDecorationType {
@@ -292,6 +875,20 @@ export class GitBlameProvider {
     return vscode.window.createTextEditorDecorationType(options);
   }
 
+  private createHeatmapRulerDecorationTypes(): vscode.TextEditorDecorationType[] {
+    const types: vscode.TextEditorDecorationType[] = [];
+    for (let bucket = 0; bucket < HEATMAP_RULER_BUCKETS; bucket++) {
+      // Newest bucket is fully opaque, older ones fade out
+      const alpha = (1 - bucket / HEATMAP_RULER_BUCKETS).toFixed(2);
+      types.push(vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+        overviewRulerColor: `rgba(${HEATMAP_RULER_COLOR.join(', ')}, ${alpha})`
+      }));
+    }
+    return types;
+  }
+
   private updateFontSettings(): void {
     const config = vscode.workspace.getConfiguration('gitHistory');
     this.fontSize = config.get('blameFontSize', 12);
@@ -299,13 +896,22 @@ export class GitBlameProvider {
     this.backgroundEnabled = config.get('blameBackgroundEnabled', false);
     this.newestColor = config.get('blameNewestColor', '#1a3d1a');
     this.oldestColor = config.get('blameOldestColor', '#3d1a1a');
+    this.heatmapScale = config.get('blameHeatmapScale', 'linear');
+    this.heatmapRange = config.get('blameHeatmapRange', 'file');
+    this.template = config.get('blameTemplate', '${date} ${author:12}');
+    this.dateFormat = config.get('blameDateFormat', 'DD/MM/YYYY');
     
     this.textDecorationType.dispose();
     this.textDecorationType = this.createTextDecorationType();
+    this.heatmapRulerDecorationTypes.forEach(type => type.dispose());
+    this.heatmapRulerDecorationTypes = this.createHeatmapRulerDecorationTypes();
     
     if (this.currentEditor && this.enabled) {
       this.showBlame(this.currentEditor);
     }
+    if (this.enabled) {
+      this.showHistoricalBlame();
+    }
   }
 
   private interpolateColor(color1: string, color2: string, ratio: number): string {
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { BlameLineInfo, UNCOMMITTED_HASH } from './gitService';
+import { GitServiceManager } from './gitServiceManager';
+import { SymbolTarget, getDocumentSymbols } from './symbols';
+import { formatTimeAgo } from './formatting';
+
+class SymbolCodeLens extends vscode.CodeLens {
+  constructor(
+    public readonly document: vscode.TextDocument,
+    public readonly symbol: SymbolTarget
+  ) {
+    super(new vscode.Range(symbol.range.start, symbol.range.start));
+  }
+}
+
+export class GitCodeLensProvider implements vscode.CodeLensProvider<SymbolCodeLens> {
+  private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+  private enabled: boolean;
+  private disposables: vscode.Disposable[] = [];
+  // Blame results are cached per file until it changes, so each array is indexed by line only once
+  private blameByLine: WeakMap<BlameLineInfo[], BlameLineInfo[]> = new WeakMap();
+
+  constructor(private gitServices: GitServiceManager) {
+    this.enabled = vscode.workspace.getConfiguration('gitHistory').get('showCodeLens', false);
+
+    this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('gitHistory.showCodeLens')) {
+        this.enabled = vscode.workspace.getConfiguration('gitHistory').get('showCodeLens', false);
+        this.refresh();
+      }
+    }));
+
+    // Blame for the saved file is cached, so counts only change once the file is saved
+    this.disposables.push(vscode.workspace.onDidSaveTextDocument(() => this.refresh()));
+  }
+
+  refresh(): void {
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  async toggle(): Promise<void> {
+    this.enabled = !this.enabled;
+    await vscode.workspace.getConfiguration('gitHistory').update('showCodeLens', this.enabled, true);
+    this.refresh();
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<SymbolCodeLens[]> {
+    // Unsaved edits shift lines away from the cached blame of the file on disk
+    if (!this.enabled || document.uri.scheme !== 'file' || document.isDirty) {
+      return [];
+    }
+    if (!this.gitServices.getServiceForFile(document.fileName)) {
+      return [];
+    }
+
+    // Only symbols are listed here; blame is looked up when VS Code resolves a visible lens
+    const symbols = await getDocumentSymbols(document);
+    return symbols.map(symbol => new SymbolCodeLens(document, symbol));
+  }
+
+  async resolveCodeLens(codeLens: SymbolCodeLens): Promise<SymbolCodeLens> {
+    const { document, symbol } = codeLens;
+    const gitService = this.gitServices.getServiceForFile(document.fileName);
+    const blameInfo = gitService ? await gitService.getBlame(document.fileName) : [];
+
+    const startLine = symbol.range.start.line + 1;
+    const endLine = symbol.range.end.line + 1;
+    const lines = this.getLinesByNumber(blameInfo).slice(startLine - 1, endLine).filter(Boolean);
+
+    codeLens.command = {
+      title: this.formatTitle(lines),
+      command: 'gitHistory.showSymbolHistory',
+      arguments: [document.uri, symbol]
+    };
+    return codeLens;
+  }
+
+  private getLinesByNumber(blameInfo: BlameLineInfo[]): BlameLineInfo[] {
+    let byLine = this.blameByLine.get(blameInfo);
+    if (!byLine) {
+      byLine = [];
+      for (const lineInfo of blameInfo) {
+        byLine[lineInfo.lineNumber - 1] = lineInfo;
+      }
+      this.blameByLine.set(blameInfo, byLine);
+    }
+    return byLine;
+  }
+
+  private formatTitle(lines: BlameLineInfo[]): string {
+    const committed = lines.filter(lineInfo => lineInfo.commitHash !== UNCOMMITTED_HASH);
+    if (committed.length === 0) {
+      return lines.length > 0 ? 'Not committed yet' : 'No history';
+    }
+
+    let latest = committed[0];
+    for (const lineInfo of committed) {
+      if (Date.parse(lineInfo.date) > Date.parse(latest.date)) {
+        latest = lineInfo;
+      }
+    }
+
+    const authors = new Set(committed.map(lineInfo => lineInfo.authorEmail || lineInfo.author)).size;
+    const commits = new Set(committed.map(lineInfo => lineInfo.commitHash)).size;
+    const lastChanged = committed.length < lines.length
+      ? 'has uncommitted changes'
+      : `last changed ${formatTimeAgo(latest.date)} by ${latest.author}`;
+
+    return `${lastChanged} • ${authors} author${authors === 1 ? '' : 's'} • ${commits} commit${commits === 1 ? '' : 's'}`;
+  }
+
+  dispose(): void {
+    this._onDidChangeCodeLenses.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
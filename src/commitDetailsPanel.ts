@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommitDetails } from './gitService';
+import { GitServiceManager } from './gitServiceManager';
+import { formatRelativeTime } from './formatting';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function createNonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
+
+// One panel is reused for every commit, like the built-in commit views
+export class CommitDetailsPanel {
+  private static current: CommitDetailsPanel | undefined;
+
+  private panel: vscode.WebviewPanel;
+  private disposables: vscode.Disposable[] = [];
+  private filePath: string = '';
+  private repoRoot: string | undefined;
+  private details: CommitDetails | undefined;
+  private getMergeParent: (commitHash: string) => number | undefined = () => undefined;
+
+  // The merge parent is looked up for linked commits too, so they compare against the same side as the tree
+  static async show(
+    gitServices: GitServiceManager,
+    commitHash: string,
+    filePath: string,
+    getMergeParent: (commitHash: string) => number | undefined = () => undefined
+  ): Promise<void> {
+    const parentNumber = getMergeParent(commitHash) ?? 1;
+    // Load first so a failure doesn't leave an empty panel behind
+    const loaded = await CommitDetailsPanel.loadDetails(gitServices, commitHash, filePath, parentNumber);
+    if (!loaded) {
+      return;
+    }
+
+    if (!CommitDetailsPanel.current) {
+      CommitDetailsPanel.current = new CommitDetailsPanel(gitServices);
+    }
+    CommitDetailsPanel.current.getMergeParent = getMergeParent;
+    CommitDetailsPanel.current.display(loaded.details, loaded.repoRoot, filePath, parentNumber);
+  }
+
+  private static async loadDetails(
+    gitServices: GitServiceManager,
+    commitHash: string,
+    filePath: string,
+    parentNumber: number
+  ): Promise<{ details: CommitDetails; repoRoot: string | undefined } | undefined> {
+    const gitService = gitServices.getServiceForFile(filePath);
+    if (!gitService) {
+      vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
+      return undefined;
+    }
+
+    const details = await gitService.getCommitDetails(commitHash, filePath, parentNumber);
+    if (!details) {
+      vscode.window.showErrorMessage(`Git History: Could not load commit ${commitHash.substring(0, 7)}`);
+      return undefined;
+    }
+    return { details, repoRoot: gitService.getRepoRoot(filePath) };
+  }
+
+  private constructor(private gitServices: GitServiceManager) {
+    this.panel = vscode.window.createWebviewPanel('gitHistory.commitDetails', 'Commit Details', vscode.ViewColumn.Active, {
+      enableScripts: true
+    });
+
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message), null, this.disposables);
+  }
+
+  private display(details: CommitDetails, repoRoot: string | undefined, filePath: string, parentNumber: number): void {
+    this.filePath = filePath;
+    this.repoRoot = repoRoot;
+    this.details = details;
+    this.panel.title = `Commit ${details.hash.substring(0, 7)}`;
+    this.panel.webview.html = this.render(details, parentNumber);
+    this.panel.reveal();
+  }
+
+  private async handleMessage(message: any): Promise<void> {
+    if (!this.details) {
+      return;
+    }
+
+    switch (message?.command) {
+      case 'openDiff': {
+        const file = this.details.files[message.index];
+        if (!file) {
+          return;
+        }
+        // Same arguments as FileItem, so the diff opens exactly like it does from the tree
+        const toAbsolute = (relativePath: string) => this.repoRoot ? path.join(this.repoRoot, relativePath) : relativePath;
+        await vscode.commands.executeCommand('gitHistory.viewDiff',
+          this.details.hash,
+          toAbsolute(file.path),
+          undefined,
+          file.oldPath ? toAbsolute(file.oldPath) : undefined
+        );
+        break;
+      }
+      case 'showCommit':
+        if (typeof message.hash === 'string') {
+          const parentNumber = this.getMergeParent(message.hash) ?? 1;
+          const loaded = await CommitDetailsPanel.loadDetails(this.gitServices, message.hash, this.filePath, parentNumber);
+          // The panel may have been closed while loading
+          if (loaded && CommitDetailsPanel.current === this) {
+            this.display(loaded.details, loaded.repoRoot, this.filePath, parentNumber);
+          }
+        }
+        break;
+      case 'copySha':
+        await vscode.env.clipboard.writeText(this.details.hash);
+        vscode.window.showInformationMessage(`Copied commit SHA: ${this.details.hash.substring(0, 7)}`);
+        break;
+    }
+  }
+
+  private render(details: CommitDetails, parentNumber: number): string {
+    const nonce = createNonce();
+    const person = (name: string, email: string, date: string) =>
+      `${escapeHtml(name)} &lt;${escapeHtml(email)}&gt; <span class="muted">${escapeHtml(new Date(date).toLocaleString())} (${escapeHtml(formatRelativeTime(date))})</span>`;
+
+    const rows: string[] = [
+      `<tr><th>Commit</th><td><code>${details.hash}</code> <a href="#" id="copy-sha">Copy</a></td></tr>`,
+      `<tr><th>Author</th><td>${person(details.author, details.authorEmail, details.authorDate)}</td></tr>`
+    ];
+    // Rebases, cherry-picks and patches applied by someone else make these differ
+    if (details.committer !== details.author || details.committerEmail !== details.authorEmail || details.committerDate !== details.authorDate) {
+      rows.push(`<tr><th>Committer</th><td>${person(details.committer, details.committerEmail, details.committerDate)}</td></tr>`);
+    }
+    if (details.parents.length > 0) {
+      const parents = details.parents.map((parent, index) => {
+        const compared = details.parents.length > 1 && index + 1 === parentNumber ? ' <span class="muted">(compared)</span>' : '';
+        return `<a href="#" class="commit-link" data-hash="${parent}"><code>${parent.substring(0, 7)}</code></a>${compared}`;
+      });
+      rows.push(`<tr><th>${details.parents.length > 1 ? 'Parents' : 'Parent'}</th><td>${parents.join(', ')}</td></tr>`);
+    }
+    if (details.refs.length > 0) {
+      const refs = details.refs.map(ref => `<span class="ref ref-${ref.type}" title="${ref.type}">${escapeHtml(ref.name)}</span>`);
+      rows.push(`<tr><th>Refs</th><td>${refs.join(' ')}</td></tr>`);
+    }
+    for (const trailer of details.trailers) {
+      rows.push(`<tr><th>${escapeHtml(trailer.key)}</th><td>${escapeHtml(trailer.value)}</td></tr>`);
+    }
+
+    let totalAdditions = 0;
+    let totalDeletions = 0;
+    const files = details.files.map((file, index) => {
+      const stat = file.stat;
+      totalAdditions += stat?.additions || 0;
+      totalDeletions += stat?.deletions || 0;
+      const statText = !stat ? '' : stat.binary
+        ? '<span class="muted">binary</span>'
+        : `<span class="added">+${stat.additions}</span> <span class="deleted">-${stat.deletions}</span>`;
+      const renamed = file.oldPath ? ` <span class="muted">← ${escapeHtml(file.oldPath)}</span>` : '';
+      return `<li><span class="stat">${statText}</span> <span class="status status-${file.status}">${file.status.charAt(0).toUpperCase()}</span> ` +
+        `<a href="#" class="file-link" data-index="${index}">${escapeHtml(file.path)}</a>${renamed}</li>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 20px 20px; }
+    h2 { font-weight: 600; margin-bottom: 8px; }
+    pre.body { white-space: pre-wrap; font-family: var(--vscode-editor-font-family); margin: 0 0 16px; }
+    table { border-collapse: collapse; margin-bottom: 16px; }
+    th { text-align: left; vertical-align: top; padding: 2px 16px 2px 0; font-weight: 600; white-space: nowrap; }
+    td { padding: 2px 0; }
+    a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+    a:hover { text-decoration: underline; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .ref { border-radius: 3px; padding: 0 5px; margin-right: 4px; border: 1px solid; }
+    .ref-head { color: var(--vscode-charts-green); }
+    .ref-branch { color: var(--vscode-charts-blue); }
+    .ref-remote { color: var(--vscode-charts-purple); }
+    .ref-tag { color: var(--vscode-charts-yellow); }
+    ul.files { list-style: none; padding: 0; font-family: var(--vscode-editor-font-family); }
+    ul.files li { padding: 1px 0; }
+    .stat { display: inline-block; min-width: 90px; }
+    .added { color: var(--vscode-gitDecoration-addedResourceForeground); }
+    .deleted { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+    .status { display: inline-block; width: 14px; font-weight: 600; }
+    .status-added, .status-copied { color: var(--vscode-gitDecoration-addedResourceForeground); }
+    .status-deleted { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+    .status-modified { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+    .status-renamed { color: var(--vscode-gitDecoration-renamedResourceForeground); }
+  </style>
+</head>
+<body>
+  <h2>${escapeHtml(details.subject)}</h2>
+  ${details.body ? `<pre class="body">${escapeHtml(details.body)}</pre>` : ''}
+  <table>${rows.join('')}</table>
+  <h3>${details.files.length} file${details.files.length === 1 ? '' : 's'} changed
+    <span class="added">+${totalAdditions}</span> <span class="deleted">-${totalDeletions}</span></h3>
+  <ul class="files">${files.join('')}</ul>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('.file-link').forEach(link => link.addEventListener('click', event => {
+      event.preventDefault();
+      vscode.postMessage({ command: 'openDiff', index: Number(link.dataset.index) });
+    }));
+    document.querySelectorAll('.commit-link').forEach(link => link.addEventListener('click', event => {
+      event.preventDefault();
+      vscode.postMessage({ command: 'showCommit', hash: link.dataset.hash });
+    }));
+    document.getElementById('copy-sha').addEventListener('click', event => {
+      event.preventDefault();
+      vscode.postMessage({ command: 'copySha' });
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  private dispose(): void {
+    CommitDetailsPanel.current = undefined;
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
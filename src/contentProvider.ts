@@ -1,25 +1,54 @@
 import * as vscode from 'vscode';
-import { GitService } from './gitService';
+import { GitServiceManager } from './gitServiceManager';
+import { EMPTY_TREE_REVISION } from './gitService';
+
+// URI format: git-history://{commitHash}/{filePath}
+// The authority contains the commit hash, path contains the file path.
+// A "combined" query serves a merge's combined diff of the file instead of its content
+export function toGitHistoryUri(commitHash: string, filePath: string, combined: boolean = false): vscode.Uri {
+  return vscode.Uri.from({ scheme: 'git-history', authority: commitHash, path: `/${filePath}`, query: combined ? 'combined' : '' });
+}
+
+export function parseGitHistoryUri(uri: vscode.Uri): { commitHash: string; filePath: string; combined: boolean } {
+  return {
+    commitHash: uri.authority,
+    filePath: uri.path.startsWith('/') ? uri.path.slice(1) : uri.path,
+    combined: uri.query === 'combined'
+  };
+}
 
 export class GitHistoryContentProvider implements vscode.TextDocumentContentProvider {
   private _onDidChange: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter<vscode.Uri>();
   readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
 
-  constructor(private gitService: GitService) {}
+  constructor(private gitServices: GitServiceManager) {}
 
   async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
-    // URI format: git-history://{commitHash}/{filePath}
-    // The authority contains the commit hash, path contains the file path
-    const commitHash = uri.authority;
-    const filePath = uri.path.startsWith('/') ? uri.path.slice(1) : uri.path;
+    const { commitHash, filePath, combined } = parseGitHistoryUri(uri);
     
     if (!commitHash || !filePath) {
       console.error('Invalid URI format:', uri.toString());
       return '';
     }
 
+    // No file exists in the empty tree, so there's nothing to ask git for
+    if (commitHash === EMPTY_TREE_REVISION) {
+      return '';
+    }
+
+    const gitService = this.gitServices.getServiceForFile(filePath);
+    if (!gitService) {
+      console.error('No repository found for:', filePath);
+      return '';
+    }
+
+    if (combined) {
+      const diff = await gitService.getCombinedDiff(commitHash, filePath);
+      return diff || `# ${commitHash.substring(0, 7)} merged ${filePath} without changes beyond its parents\n`;
+    }
+
     console.log(`Fetching content for commit: ${commitHash}, file: ${filePath}`);
-    const content = await this.gitService.getFileContent(commitHash, filePath);
+    const content = await gitService.getFileContent(commitHash, filePath);
     console.log(`Content length: ${content.length}`);
     return content;
   }
@@ -1,57 +1,111 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GitService } from './gitService';
+import { LineRange, INDEX_REVISION, EMPTY_TREE_REVISION } from './gitService';
+import { GitServiceManager } from './gitServiceManager';
 import { GitHistoryProvider } from './historyProvider';
-import { GitHistoryContentProvider } from './contentProvider';
-import { GitWatcher } from './gitWatcher';
+import { GitHistoryContentProvider, toGitHistoryUri } from './contentProvider';
 import { GitBlameProvider } from './blameProvider';
+import { GitCodeLensProvider } from './codeLensProvider';
+import { SymbolTarget, findSymbolAtPosition } from './symbols';
+import { promptForLogFilter } from './historyFilter';
+import { pickRef } from './refPicker';
+import { CommitDetailsPanel } from './commitDetailsPanel';
 
-let gitService: GitService | undefined;
+let gitServiceManager: GitServiceManager | undefined;
 let historyProvider: GitHistoryProvider | undefined;
 let blameProvider: GitBlameProvider | undefined;
+let codeLensProvider: GitCodeLensProvider | undefined;
+let compareSelection: { commitHash: string; filePath: string } | undefined;
+
+// Commands run from a CommitItem get the item, ones run from links get the hash and path
+function getCommitTarget(item: any, filePath?: string): { commitHash: string; filePath: string } | undefined {
+  if (typeof item === 'string' && filePath) {
+    return { commitHash: item, filePath };
+  }
+  if (item && item.commit && item.commit.hash && item.filePath) {
+    return { commitHash: item.commit.hash, filePath: item.filePath };
+  }
+  return undefined;
+}
+
+async function openRevisionDiff(leftUri: vscode.Uri, rightUri: vscode.Uri, title: string): Promise<void> {
+  try {
+    await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title, { preview: true });
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error opening diff: ${error}`);
+  }
+}
+
+// `git log -L` counts lines in HEAD, so ranges from the editor buffer are mapped there first.
+// Resolves to undefined when none of the lines are committed yet
+async function getHeadRange(document: vscode.TextDocument, range: LineRange): Promise<LineRange | undefined> {
+  const gitService = gitServiceManager?.getServiceForFile(document.fileName);
+  if (!gitService) {
+    return undefined;
+  }
+  return gitService.mapRangeToHead(document.fileName, range, document.getText());
+}
+
+// Resolves the path the file had at a commit; warns and resolves to undefined when it didn't exist there
+async function getPathAtCommit(commitHash: string, filePath: string): Promise<string | undefined> {
+  const gitService = gitServiceManager?.getServiceForFile(filePath);
+  if (!gitService) {
+    vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
+    return undefined;
+  }
+  // Commits listed in the history view come from its selected ref
+  const pathAtCommit = await gitService.getPathAtCommit(commitHash, filePath, historyProvider?.getSelectedRef(filePath));
+  if (!pathAtCommit) {
+    const revision = commitHash === 'HEAD' ? 'HEAD' : commitHash.substring(0, 7);
+    vscode.window.showInformationMessage(`Git History: ${path.basename(filePath)} does not exist at ${revision}`);
+  }
+  return pathAtCommit;
+}
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('Git History Sidebar extension is now active!');
 
-  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-  
-  if (workspaceRoot) {
-    gitService = new GitService(workspaceRoot);
-    
-    // Initialize asynchronously
-    (async () => {
-      const isValid = await gitService!.isValidRepo();
-      
-      if (isValid) {
-        historyProvider = new GitHistoryProvider(gitService!);
+  if (vscode.workspace.workspaceFolders?.length) {
+    // One GitService and GitWatcher per workspace folder, kept in sync with folder changes
+    gitServiceManager = new GitServiceManager(service => {
+      service.invalidateCache();
+      historyProvider?.refresh();
+      codeLensProvider?.refresh();
+    });
+    context.subscriptions.push({ dispose: () => gitServiceManager?.dispose() });
 
-        const treeView = vscode.window.createTreeView('gitHistoryView', {
-          treeDataProvider: historyProvider,
-          showCollapseAll: true
-        });
+    historyProvider = new GitHistoryProvider(gitServiceManager, context.workspaceState);
 
-        const contentProvider = new GitHistoryContentProvider(gitService!);
-        context.subscriptions.push(
-          vscode.workspace.registerTextDocumentContentProvider('git-history', contentProvider)
-        );
+    const treeView = vscode.window.createTreeView('gitHistoryView', {
+      treeDataProvider: historyProvider,
+      showCollapseAll: true
+    });
+    context.subscriptions.push(treeView);
 
-        // Initialize blame provider
-        console.log('[GitHistory] Initializing blame provider...');
-        blameProvider = new GitBlameProvider(gitService!);
-        context.subscriptions.push({ dispose: () => blameProvider?.dispose() });
-        console.log('[GitHistory] Blame provider initialized');
+    // The view description shows which ref the history is walked from
+    treeView.description = historyProvider.getRefDescription();
+    context.subscriptions.push(
+      historyProvider.onDidChangeTreeData(() => {
+        treeView.description = historyProvider?.getRefDescription();
+      })
+    );
 
-        const gitWatcher = new GitWatcher(workspaceRoot, () => {
-          gitService?.invalidateCache();
-          historyProvider?.refresh();
-        });
+    const contentProvider = new GitHistoryContentProvider(gitServiceManager);
+    context.subscriptions.push(
+      vscode.workspace.registerTextDocumentContentProvider('git-history', contentProvider)
+    );
 
-        context.subscriptions.push(treeView);
-        context.subscriptions.push({ dispose: () => gitWatcher.dispose() });
-      } else {
-        console.log('Not a git repository');
-      }
-    })();
+    // Initialize blame provider
+    console.log('[GitHistory] Initializing blame provider...');
+    blameProvider = new GitBlameProvider(gitServiceManager);
+    context.subscriptions.push({ dispose: () => blameProvider?.dispose() });
+    console.log('[GitHistory] Blame provider initialized');
+
+    codeLensProvider = new GitCodeLensProvider(gitServiceManager);
+    context.subscriptions.push(
+      vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLensProvider),
+      { dispose: () => codeLensProvider?.dispose() }
+    );
   } else {
     console.log('No workspace folder found');
   }
@@ -59,37 +113,81 @@ export function activate(context: vscode.ExtensionContext) {
   // Register commands regardless of initialization state
   context.subscriptions.push(
     vscode.commands.registerCommand('gitHistory.refresh', () => {
-      if (gitService && historyProvider) {
-        gitService.invalidateCache();
+      if (gitServiceManager && historyProvider) {
+        gitServiceManager.invalidateCache();
         historyProvider.refresh();
       } else {
         vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
       }
     }),
 
-    vscode.commands.registerCommand('gitHistory.viewDiff', async (commitHash: string, filePath: string) => {
-      if (!gitService || !workspaceRoot) {
+    // oldFilePath is the file's path in the parent commit when the commit renamed or copied it
+    vscode.commands.registerCommand('gitHistory.viewDiff', async (commitHash: string, filePath: string, range?: LineRange, oldFilePath?: string) => {
+      const gitService = gitServiceManager?.getServiceForFile(filePath);
+      if (!gitService) {
         vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
         return;
       }
       
       try {
-        const parentHash = await gitService.getParentCommit(commitHash, filePath);
-
-        if (!parentHash) {
-          vscode.window.showInformationMessage('This is the first commit');
+        // Merges are compared with the parent picked in the history view, first parent by default
+        const parentNumber = historyProvider?.getMergeParent(commitHash) ?? 1;
+        if (parentNumber === 0) {
+          const document = await vscode.workspace.openTextDocument(toGitHistoryUri(commitHash, filePath, true));
+          await vscode.languages.setTextDocumentLanguage(document, 'diff');
+          await vscode.window.showTextDocument(document, { preview: true });
           return;
         }
 
+        // Root commits have no parent, so everything in them is compared with the empty tree
+        const parentHash = await gitService.getParentCommit(commitHash, filePath, parentNumber) || EMPTY_TREE_REVISION;
+
+        // Commits from the file history don't know about renames, additions or deletions,
+        // so look the file up in the commit
+        const relativePath = gitService.getRelativePath(filePath);
+        const change = (await gitService.getChangedFiles(commitHash, filePath, parentNumber)).find(file => file.path === relativePath);
+        const repoRoot = gitService.getRepoRoot(filePath);
+        if (!oldFilePath && change?.oldPath && repoRoot) {
+          oldFilePath = path.join(repoRoot, change.oldPath);
+        }
+
         // DON'T change sidebar view - just show the diff
-        // Compare parent commit with current commit (not with file on disk)
-        const leftUri = vscode.Uri.parse(`git-history://${parentHash}/${filePath}`);
-        const rightUri = vscode.Uri.parse(`git-history://${commitHash}/${filePath}`);
+        // Compare parent commit with current commit (not with file on disk).
+        // Added files have no left side and deleted ones no right side
+        const leftUri = toGitHistoryUri(change?.status === 'added' ? EMPTY_TREE_REVISION : parentHash, oldFilePath || filePath);
+        const rightUri = toGitHistoryUri(change?.status === 'deleted' ? EMPTY_TREE_REVISION : commitHash, filePath);
+
+        // Line range history passes the hunk location so the diff opens scrolled to it
+        const selection = range
+          ? new vscode.Range(range.startLine - 1, 0, range.endLine - 1, 0)
+          : undefined;
 
         await vscode.commands.executeCommand('vscode.diff',
           leftUri,
           rightUri,
-          `${path.basename(filePath)} (${commitHash.substring(0, 7)})`,
+          `${path.basename(filePath)} (${commitHash.substring(0, 7)}${parentNumber > 1 ? ` ↔ parent ${parentNumber}` : ''})`,
+          { preview: true, selection }
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error opening diff: ${error}`);
+      }
+    }),
+
+    // Staged changes compare HEAD with the index, unstaged ones the index with the file on disk
+    vscode.commands.registerCommand('gitHistory.viewWorkingTreeDiff', async (filePath: string, staged: boolean) => {
+      if (!gitServiceManager?.getServiceForFile(filePath)) {
+        vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
+        return;
+      }
+
+      const leftUri = staged ? toGitHistoryUri('HEAD', filePath) : toGitHistoryUri(INDEX_REVISION, filePath);
+      const rightUri = staged ? toGitHistoryUri(INDEX_REVISION, filePath) : vscode.Uri.file(filePath);
+
+      try {
+        await vscode.commands.executeCommand('vscode.diff',
+          leftUri,
+          rightUri,
+          `${path.basename(filePath)} (${staged ? 'Staged' : 'Working Tree'})`,
           { preview: true }
         );
       } catch (error) {
@@ -97,6 +195,132 @@ export function activate(context: vscode.ExtensionContext) {
       }
     }),
 
+    // Picks which parent of a merge its diffs and changed files are compared with
+    vscode.commands.registerCommand('gitHistory.selectMergeParent', async (item: any) => {
+      if (!historyProvider) {
+        vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
+        return;
+      }
+
+      const commitHash: string | undefined = typeof item === 'string' ? item : item?.commit?.hash;
+      const filePath = item?.filePath ?? historyProvider.getCurrentFilePath();
+      const gitService = filePath ? gitServiceManager?.getServiceForFile(filePath) : undefined;
+      if (!commitHash || !filePath || !gitService) {
+        console.error('Invalid item passed to selectMergeParent:', item);
+        return;
+      }
+
+      const parents: string[] = [...(item?.commit?.parents || [])];
+      if (parents.length === 0) {
+        for (let parentNumber = 1; ; parentNumber++) {
+          const parentHash = await gitService.getParentCommit(commitHash, filePath, parentNumber);
+          if (!parentHash) {
+            break;
+          }
+          parents.push(parentHash);
+        }
+      }
+
+      const current = historyProvider.getMergeParent(commitHash) ?? 1;
+      const items = parents.map((parentHash, index) => ({
+        label: `$(git-commit) Parent ${index + 1}`,
+        description: `${parentHash.substring(0, 7)}${index === 0 ? ' • branch merged into' : ' • merged branch'}${current === index + 1 ? ' (selected)' : ''}`,
+        parentNumber: index + 1
+      }));
+      items.push({
+        label: '$(git-merge) Combined diff',
+        description: `Only changes that differ from every parent${current === 0 ? ' (selected)' : ''}`,
+        parentNumber: 0
+      });
+
+      const picked = await vscode.window.showQuickPick(items, {
+        title: `Compare Merge ${commitHash.substring(0, 7)} With`,
+        placeHolder: 'Choose a parent'
+      });
+      if (!picked) {
+        return;
+      }
+
+      historyProvider.setMergeParent(commitHash, picked.parentNumber);
+      if (item?.commit) {
+        await vscode.commands.executeCommand('gitHistory.viewDiff', commitHash, filePath);
+      }
+    }),
+
+    vscode.commands.registerCommand('gitHistory.selectForCompare', async (item: any, filePath?: string) => {
+      const target = getCommitTarget(item, filePath);
+      if (!target) {
+        console.error('Invalid item passed to selectForCompare:', item);
+        return;
+      }
+
+      compareSelection = target;
+      await vscode.commands.executeCommand('setContext', 'gitHistory.hasCompareSelection', true);
+      vscode.window.setStatusBarMessage(`Git History: Selected ${target.commitHash.substring(0, 7)} for compare`, 3000);
+    }),
+
+    vscode.commands.registerCommand('gitHistory.compareWithSelected', async (item: any, filePath?: string) => {
+      const target = getCommitTarget(item, filePath);
+      if (!target) {
+        console.error('Invalid item passed to compareWithSelected:', item);
+        return;
+      }
+      if (!compareSelection) {
+        vscode.window.showInformationMessage('Git History: Select a commit for compare first');
+        return;
+      }
+
+      // The file may have been renamed between the two commits, so each side uses the path it had then
+      const selected = compareSelection;
+      const selectedPath = await getPathAtCommit(selected.commitHash, selected.filePath);
+      const targetPath = selectedPath && await getPathAtCommit(target.commitHash, target.filePath);
+      if (!selectedPath || !targetPath) {
+        return;
+      }
+      await openRevisionDiff(
+        toGitHistoryUri(selected.commitHash, selectedPath),
+        toGitHistoryUri(target.commitHash, targetPath),
+        `${path.basename(targetPath)} (${selected.commitHash.substring(0, 7)} ↔ ${target.commitHash.substring(0, 7)})`
+      );
+    }),
+
+    vscode.commands.registerCommand('gitHistory.compareWithWorkingTree', async (item: any, filePath?: string) => {
+      const target = getCommitTarget(item, filePath);
+      if (!target) {
+        console.error('Invalid item passed to compareWithWorkingTree:', item);
+        return;
+      }
+
+      const pathAtCommit = await getPathAtCommit(target.commitHash, target.filePath);
+      if (!pathAtCommit) {
+        return;
+      }
+      await openRevisionDiff(
+        toGitHistoryUri(target.commitHash, pathAtCommit),
+        vscode.Uri.file(target.filePath),
+        `${path.basename(target.filePath)} (${target.commitHash.substring(0, 7)} ↔ Working Tree)`
+      );
+    }),
+
+    vscode.commands.registerCommand('gitHistory.compareWithHead', async (item: any, filePath?: string) => {
+      const target = getCommitTarget(item, filePath);
+      if (!target) {
+        console.error('Invalid item passed to compareWithHead:', item);
+        return;
+      }
+
+      const pathAtCommit = await getPathAtCommit(target.commitHash, target.filePath);
+      const headPath = pathAtCommit && await getPathAtCommit('HEAD', target.filePath);
+      if (!pathAtCommit || !headPath) {
+        return;
+      }
+      await openRevisionDiff(
+        toGitHistoryUri(target.commitHash, pathAtCommit),
+        toGitHistoryUri('HEAD', headPath),
+        `${path.basename(target.filePath)} (${target.commitHash.substring(0, 7)} ↔ HEAD)`
+      );
+    }),
+
     vscode.commands.registerCommand('gitHistory.loadMore', async (filePath: string, page: number) => {
       if (historyProvider) {
         await historyProvider.loadMore(filePath, page);
@@ -106,11 +330,110 @@ export function activate(context: vscode.ExtensionContext) {
     }),
 
     vscode.commands.registerCommand('gitHistory.backToHistory', () => {
-      historyProvider?.clearFocusedCommit();
+      historyProvider?.goBack();
+    }),
+
+    vscode.commands.registerCommand('gitHistory.showSelectionHistory', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.document.uri.scheme !== 'file') {
+        vscode.window.showWarningMessage('Git History: Open a file to see the history of a selection');
+        return;
+      }
+      if (!historyProvider) {
+        vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
+        return;
+      }
+
+      const selection = editor.selection;
+      const startLine = selection.start.line + 1;
+      let endLine = selection.end.line + 1;
+      // A selection ending at column 0 doesn't include that last line
+      if (selection.end.line > selection.start.line && selection.end.character === 0) {
+        endLine--;
+      }
+
+      const headRange = await getHeadRange(editor.document, { startLine, endLine });
+      if (!headRange) {
+        vscode.window.showInformationMessage('Git History: The selected lines are not committed yet, so they have no history');
+        return;
+      }
+
+      historyProvider.setLineRange(editor.document.fileName, headRange);
+      await vscode.commands.executeCommand('gitHistoryView.focus');
+    }),
+
+    // CodeLenses pass the file and symbol; from the editor the symbol at the cursor is used
+    vscode.commands.registerCommand('gitHistory.showSymbolHistory', async (uri?: vscode.Uri, target?: SymbolTarget) => {
+      if (!historyProvider) {
+        vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
+        return;
+      }
+
+      let document: vscode.TextDocument;
+      let symbol: SymbolTarget | undefined = target;
+      if (uri instanceof vscode.Uri && symbol) {
+        document = await vscode.workspace.openTextDocument(uri);
+      } else {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+          vscode.window.showWarningMessage('Git History: Open a file to see the history of a function');
+          return;
+        }
+        document = editor.document;
+        symbol = await findSymbolAtPosition(editor.document, editor.selection.active);
+      }
+
+      if (!symbol) {
+        vscode.window.showInformationMessage('Git History: No function or class found at the cursor');
+        return;
+      }
+
+      // Symbol ranges come from the buffer, which may differ from HEAD
+      const headRange = await getHeadRange(document, {
+        startLine: symbol.range.start.line + 1,
+        endLine: symbol.range.end.line + 1
+      });
+      if (!headRange) {
+        vscode.window.showInformationMessage(`Git History: ${symbol.name} only exists in the working tree, so it has no history yet`);
+        return;
+      }
+
+      historyProvider.setLineRange(document.fileName, headRange, symbol);
+      await vscode.commands.executeCommand('gitHistoryView.focus');
+    }),
+
+    vscode.commands.registerCommand('gitHistory.filterHistory', async () => {
+      if (!historyProvider) {
+        vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
+        return;
+      }
+
+      const filter = await promptForLogFilter(historyProvider.getFilter());
+      if (filter) {
+        historyProvider.setFilter(filter);
+      }
+    }),
+
+    vscode.commands.registerCommand('gitHistory.clearHistoryFilter', () => {
+      historyProvider?.setFilter(undefined);
+    }),
+
+    vscode.commands.registerCommand('gitHistory.selectRef', async () => {
+      const filePath = historyProvider?.getCurrentFilePath();
+      const gitService = filePath ? gitServiceManager?.getServiceForFile(filePath) : undefined;
+      if (!historyProvider || !filePath || !gitService) {
+        vscode.window.showWarningMessage('Git History: Open a file in a git repository to choose a ref');
+        return;
+      }
+
+      const ref = await pickRef(gitService, filePath, historyProvider.getSelectedRef(filePath));
+      if (ref !== null) {
+        await historyProvider.setSelectedRef(ref);
+      }
     }),
 
     vscode.commands.registerCommand('gitHistory.viewCommitFiles', async (item: any) => {
-      if (!gitService) {
+      if (!historyProvider) {
         vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
         return;
       }
@@ -130,6 +453,17 @@ export function activate(context: vscode.ExtensionContext) {
       historyProvider?.setFocusedCommit(commitHash);
     }),
 
+    vscode.commands.registerCommand('gitHistory.showCommitDetails', async (item: any, filePath?: string) => {
+      const target = getCommitTarget(item, filePath);
+      if (!gitServiceManager || !target) {
+        console.error('Invalid item passed to showCommitDetails:', item);
+        return;
+      }
+
+      await CommitDetailsPanel.show(gitServiceManager, target.commitHash, target.filePath,
+        commitHash => historyProvider?.getMergeParent(commitHash));
+    }),
+
     vscode.commands.registerCommand('gitHistory.copyCommitSha', async (item: any) => {
       // Extract commit hash from the TreeItem
       let commitHash: string;
@@ -159,6 +493,36 @@ export function activate(context: vscode.ExtensionContext) {
       }
     }),
 
+    vscode.commands.registerCommand('gitHistory.toggleCodeLens', async () => {
+      if (codeLensProvider) {
+        await codeLensProvider.toggle();
+      } else {
+        vscode.window.showWarningMessage('Git History: No workspace or not a git repository');
+      }
+    }),
+
+    vscode.commands.registerCommand('gitHistory.toggleChangedFilesSort', async () => {
+      const config = vscode.workspace.getConfiguration('gitHistory');
+      const sort = config.get<string>('changedFilesSort', 'name') === 'churn' ? 'name' : 'churn';
+      // The history provider rebuilds the file tree when the setting changes
+      await config.update('changedFilesSort', sort, true);
+      vscode.window.showInformationMessage(`Git History: Changed files sorted by ${sort === 'churn' ? 'lines changed' : 'name'}`);
+    }),
+
+    vscode.commands.registerCommand('gitHistory.toggleChangedFilesLayout', async () => {
+      const config = vscode.workspace.getConfiguration('gitHistory');
+      const layout = config.get<string>('changedFilesLayout', 'tree') === 'list' ? 'tree' : 'list';
+      await config.update('changedFilesLayout', layout, true);
+    }),
+
+    vscode.commands.registerCommand('gitHistory.foldAll', () => {
+      historyProvider?.foldAll();
+    }),
+
+    vscode.commands.registerCommand('gitHistory.unfoldAll', () => {
+      historyProvider?.unfoldAll();
+    }),
+
     vscode.commands.registerCommand('gitHistory.copyCommitShaFromBlame', async (commitHash: string) => {
       if (!commitHash) {
         return;
@@ -0,0 +1,83 @@
+export function formatRelativeTime(dateStr: string): string {
+  const date = new Date(dateStr);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffSecs = Math.floor(diffMs / 1000);
+  const diffMins = Math.floor(diffSecs / 60);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffSecs < 60) {return 'just now';}
+  if (diffMins < 60) {return `${diffMins}m ago`;}
+  if (diffHours < 24) {return `${diffHours}h ago`;}
+  if (diffDays < 30) {return `${diffDays}d ago`;}
+  return date.toLocaleDateString();
+}
+
+// Unlike formatRelativeTime this never falls back to an absolute date
+export function formatTimeAgo(dateStr: string): string {
+  const date = new Date(dateStr);
+  if (isNaN(date.getTime())) {
+    return '-';
+  }
+  const diffDays = Math.floor((Date.now() - date.getTime()) / (1000 * 60 * 60 * 24));
+
+  if (diffDays < 30) {
+    return formatRelativeTime(dateStr);
+  }
+  if (diffDays < 365) {
+    return `${Math.floor(diffDays / 30)}mo ago`;
+  }
+  return `${Math.floor(diffDays / 365)}y ago`;
+}
+
+// Supported tokens: YYYY, YY, MM, M, DD, D, HH, H, mm, ss
+export function formatDate(dateStr: string, format: string): string {
+  const date = new Date(dateStr);
+  if (isNaN(date.getTime())) {
+    return '-';
+  }
+
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: date.getFullYear().toString(),
+    YY: date.getFullYear().toString().slice(-2),
+    MM: pad(date.getMonth() + 1),
+    M: (date.getMonth() + 1).toString(),
+    DD: pad(date.getDate()),
+    D: date.getDate().toString(),
+    HH: pad(date.getHours()),
+    H: date.getHours().toString(),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+
+  return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, token => tokens[token]);
+}
+
+export function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(part => part.length > 0)
+    .map(part => part[0].toUpperCase())
+    .join('');
+}
+
+// Replaces ${token} and ${token:width} placeholders; a width pads or truncates the value to exactly that many characters
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\$\{(\w+)(?::(\d+))?\}/g, (match, token: string, width?: string) => {
+    const value = values[token];
+    if (value === undefined) {
+      return match;
+    }
+    if (!width) {
+      return value;
+    }
+
+    const maxLength = parseInt(width, 10);
+    if (value.length <= maxLength) {
+      return value.padEnd(maxLength);
+    }
+    return maxLength > 2 ? value.substring(0, maxLength - 2) + '..' : value.substring(0, maxLength);
+  });
+}
@@ -1,6 +1,7 @@
 import { simpleGit, SimpleGit } from 'simple-git';
 import * as path from 'path';
 import * as fs from 'fs';
+import { spawn } from 'child_process';
 import { CacheManager } from './cacheManager';
 
 export interface CommitInfo {
@@ -9,15 +10,106 @@ export interface CommitInfo {
   message: string;
   author: string;
   authorEmail: string;
+  range?: LineRange;
+  refs?: GitRef[];
+  parents?: string[]; // more than one for merge commits
 }
 
+export interface ChangedFile {
+  path: string; // relative to the repository root
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'unchanged';
+  oldPath?: string; // source path of a rename or copy
+  similarity?: number; // percentage reported for renames and copies
+}
+
+// Lines added and removed in one file; binary files have no line counts
+export interface FileStat {
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface CommitTrailer {
+  key: string; // e.g. Co-authored-by or Signed-off-by
+  value: string;
+}
+
+export interface CommitDetails {
+  hash: string;
+  parents: string[];
+  refs: GitRef[];
+  author: string;
+  authorEmail: string;
+  authorDate: string;
+  committer: string;
+  committerEmail: string;
+  committerDate: string;
+  subject: string;
+  body: string; // message without the subject line
+  trailers: CommitTrailer[];
+  files: (ChangedFile & { stat?: FileStat })[];
+}
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+// Every field narrows the history; patterns are case-insensitive Perl-compatible regexes,
+// the closest match to how the filter input is validated
+export interface LogFilter {
+  author?: string;
+  message?: string;
+  since?: string;
+  until?: string;
+  shaPrefix?: string;
+}
+
+export interface GitRef {
+  name: string; // short name, e.g. main, origin/main or v1.0.0
+  type: 'head' | 'branch' | 'remote' | 'tag';
+  target?: string; // for HEAD, the branch it is attached to; unset when detached
+}
+
+// Passed as the ref to walk history from every branch, tag and remote-tracking branch;
+// ref names can't start with a dash so it can't clash with a real ref
+export const ALL_REFS = '--all';
+
 export interface BlameLineInfo {
   lineNumber: number;
+  originalLineNumber: number;
   commitHash: string;
   author: string;
   authorEmail: string;
   date: string;
   summary: string;
+  filename?: string;
+  previousHash?: string;
+  previousFilename?: string;
+}
+
+export interface BlameOptions {
+  ignoreWhitespace: boolean;
+  moveDetection: 'off' | 'withinFile' | 'acrossFiles';
+  useDefaultIgnoreRevsFile: boolean;
+  ignoreRevsFiles: string[];
+}
+
+const DEFAULT_IGNORE_REVS_FILE = '.git-blame-ignore-revs';
+
+// git blame reports lines that differ from HEAD as coming from the all-zero commit
+export const UNCOMMITTED_HASH = '0'.repeat(40);
+
+// Revision used with getFileContent to read the staged version of a file;
+// '~' can't appear in ref names so it can't clash with a real revision
+export const INDEX_REVISION = '~index';
+
+// git's well-known empty tree; diffs use it as the missing side of added and deleted files
+export const EMPTY_TREE_REVISION = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+export interface WorkingTreeStatus {
+  staged: boolean; // index differs from HEAD
+  unstaged: boolean; // working tree differs from the index
 }
 
 interface GitRepoInfo {
@@ -25,14 +117,25 @@ interface GitRepoInfo {
   git: SimpleGit;
 }
 
+// Lists the .git directories and gitdir files below a workspace root
+export type GitEntryFinder = (workspaceRoot: string) => Promise<string[]>;
+
 export class GitService {
   private mainGit: SimpleGit;
   private cache: CacheManager;
   private isGitRepo: boolean = false;
   private initializationPromise: Promise<void>;
-  private submoduleRepos: Map<string, GitRepoInfo> = new Map();
+  private nestedRepos: Map<string, GitRepoInfo> = new Map(); // absolute repo root -> repo
+  private remoteUrls: Map<string, string | null> = new Map(); // repo root -> GitHub URL of origin
+  private ignoreRevsFiles: Map<string, Promise<string[]>> = new Map(); // repo root -> existing ignore-revs files
+  private blameOptions: BlameOptions = {
+    ignoreWhitespace: false,
+    moveDetection: 'off',
+    useDefaultIgnoreRevsFile: true,
+    ignoreRevsFiles: []
+  };
 
-  constructor(private workspaceRoot: string) {
+  constructor(private workspaceRoot: string, private findGitEntries?: GitEntryFinder) {
     this.mainGit = simpleGit(workspaceRoot);
     this.cache = new CacheManager();
     this.initializationPromise = this.initializeRepos();
@@ -41,55 +144,82 @@ export class GitService {
   private async initializeRepos(): Promise<void> {
     try {
       this.isGitRepo = await this.mainGit.checkIsRepo();
-      if (this.isGitRepo) {
-        await this.detectSubmodules();
-      }
     } catch {
       this.isGitRepo = false;
     }
+    // Nested repos are looked up even when the workspace itself isn't a repo
+    this.nestedRepos = await this.discoverNestedRepos();
   }
 
-  private async detectSubmodules(): Promise<void> {
+  refreshRepositories(): Promise<void> {
+    this.initializationPromise = this.initializeRepos().then(() => this.cache.clear());
+    return this.initializationPromise;
+  }
+
+  private async discoverNestedRepos(): Promise<Map<string, GitRepoInfo>> {
+    const repos = new Map<string, GitRepoInfo>();
+    if (!this.findGitEntries) {
+      return repos;
+    }
+
     try {
-      // Get list of submodules
-      const result = await this.mainGit.subModule(['status']);
-      const lines = result.split('\n').filter(line => line.trim());
-      
-      for (const line of lines) {
-        // Parse submodule status line: [+- ]<commit> <path> (<branch>)
-        const match = line.match(/^\s*[+-\s]?([a-f0-9]+)\s+(\S+)/);
-        if (match) {
-          const submodulePath = match[2];
-          const fullPath = path.join(this.workspaceRoot, submodulePath);
-          
-          // Check if this is actually a git repo
-          const submoduleGit = simpleGit(fullPath);
-          const isRepo = await submoduleGit.checkIsRepo();
-          
-          if (isRepo) {
-            this.submoduleRepos.set(submodulePath, {
-              root: fullPath,
-              git: submoduleGit
-            });
-            console.log('Detected submodule:', submodulePath);
-          }
+      for (const entryPath of await this.findGitEntries(this.workspaceRoot)) {
+        const root = path.dirname(entryPath);
+        // The workspace root's own .git belongs to the main repo
+        if (path.normalize(root) === path.normalize(this.workspaceRoot) || !(await this.isGitEntry(entryPath))) {
+          continue;
+        }
+
+        // Check if this is actually a git repo (a stale gitdir file points nowhere)
+        const repoGit = simpleGit(root);
+        const isRepo = await repoGit.checkIsRepo().catch(() => false);
+
+        if (isRepo) {
+          repos.set(path.normalize(root), { root, git: repoGit });
+          console.log('Detected nested repository:', root);
         }
       }
     } catch (error) {
-      console.log('No submodules detected or error:', error);
+      console.log('No nested repositories detected or error:', error);
+    }
+
+    return repos;
+  }
+
+  private async isGitEntry(entryPath: string): Promise<boolean> {
+    try {
+      const stat = await fs.promises.stat(entryPath);
+      return stat.isDirectory() || (stat.isFile() && await this.isGitdirFile(entryPath));
+    } catch {
+      return false;
+    }
+  }
+
+  // Submodules and worktrees use a .git file containing "gitdir: <path>" instead of a directory
+  private async isGitdirFile(filePath: string): Promise<boolean> {
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      return content.startsWith('gitdir:');
+    } catch {
+      return false;
     }
   }
 
   private getRepoForFile(filePath: string): GitRepoInfo | null {
     const normalizedFile = path.normalize(filePath);
     
-    // Check if file is in a submodule
-    for (const [submodulePath, repoInfo] of this.submoduleRepos.entries()) {
-      const fullSubmodulePath = path.join(this.workspaceRoot, submodulePath);
-      if (normalizedFile.startsWith(path.normalize(fullSubmodulePath))) {
-        return repoInfo;
+    // Prefer the deepest nested repo containing the file
+    let best: GitRepoInfo | null = null;
+    let bestLength = -1;
+    for (const [root, repoInfo] of this.nestedRepos.entries()) {
+      if (isPathInside(normalizedFile, root) && root.length > bestLength) {
+        best = repoInfo;
+        bestLength = root.length;
       }
     }
+    if (best) {
+      return best;
+    }
     
     // Return main repo
     if (this.isGitRepo) {
@@ -115,12 +245,29 @@ export class GitService {
     return filePath.replace(/\\/g, '/');
   }
 
+  getRepoRoot(filePath: string): string | undefined {
+    return this.getRepoForFile(filePath)?.root;
+  }
+
+  getRelativePath(filePath: string): string {
+    const repo = this.getRepoForFile(filePath);
+    return repo ? this.getRelativePathForRepo(filePath, repo.root) : filePath.replace(/\\/g, '/');
+  }
+
+  setBlameOptions(options: BlameOptions): void {
+    this.blameOptions = options;
+    // Cached blame was computed with the old options
+    this.cache.clear();
+    this.ignoreRevsFiles.clear();
+  }
+
   async isValidRepo(): Promise<boolean> {
     await this.initializationPromise;
-    return this.isGitRepo || this.submoduleRepos.size > 0;
+    return this.isGitRepo || this.nestedRepos.size > 0;
   }
 
-  async getLog(filePath: string, page: number = 0): Promise<CommitInfo[]> {
+  // Without a ref the history is walked from HEAD
+  async getLog(filePath: string, page: number = 0, filter?: LogFilter, ref?: string): Promise<CommitInfo[]> {
     await this.initializationPromise;
     
     const repo = this.getRepoForFile(filePath);
@@ -128,7 +275,7 @@ export class GitService {
       return [];
     }
 
-    const cacheKey = `log:${filePath}:${page}`;
+    const cacheKey = `log:${filePath}:${ref || 'HEAD'}:${page}${filter ? `:${JSON.stringify(filter)}` : ''}`;
     const cached = this.cache.get<CommitInfo[]>(cacheKey);
     if (cached) {
       return cached;
@@ -136,27 +283,47 @@ export class GitService {
 
     try {
       const relativePath = this.getRelativePathForRepo(filePath, repo.root);
-      const result = await repo.git.log({
-        file: relativePath,
-        '--follow': null,
-        '--max-count': 50,
-        '--skip': page * 50,
-        format: {
-          hash: '%H',
-          date: '%ai',
-          message: '%s',
-          author: '%an',
-          authorEmail: '%ae'
-        }
-      });
 
-      const commits = result.all.map((log: any) => ({
-        hash: log.hash,
-        date: log.date,
-        message: log.message,
-        author: log.author_name || log.author,
-        authorEmail: log.author_email || log.authorEmail
-      }));
+      const filterOptions: Record<string, null> = {};
+      this.getLogFilterArgs(filter).forEach(arg => filterOptions[arg] = null);
+      if (ref) {
+        filterOptions[ref] = null;
+      }
+
+      const readLog = async (pageOptions: Record<string, number>): Promise<CommitInfo[]> => {
+        const result = await repo.git.log({
+          file: relativePath,
+          '--follow': null,
+          ...pageOptions,
+          '--decorate': 'full',
+          ...filterOptions,
+          format: {
+            hash: '%H',
+            date: '%ai',
+            message: '%s',
+            author: '%an',
+            authorEmail: '%ae',
+            refs: '%D',
+            parents: '%P'
+          }
+        });
+
+        return result.all.map((log: any) => ({
+          hash: log.hash,
+          date: log.date,
+          message: log.message,
+          author: log.author_name || log.author,
+          authorEmail: log.author_email || log.authorEmail,
+          refs: parseRefDecorations(log.refs || ''),
+          parents: (log.parents || '').split(' ').filter(Boolean)
+        }));
+      };
+
+      // git log can't match a sha prefix, so the ref's whole history is matched instead
+      const shaPrefix = filter?.shaPrefix?.toLowerCase();
+      const commits = shaPrefix
+        ? await this.getShaPrefixPage(`log:${filePath}:${ref || 'HEAD'}:${JSON.stringify(filter)}`, filePath, shaPrefix, page, () => readLog({}))
+        : await readLog({ '--max-count': 50, '--skip': page * 50 });
 
       this.cache.set(cacheKey, commits, { filePath });
       return commits;
@@ -166,9 +333,217 @@ export class GitService {
     }
   }
 
-  async getChangedFiles(commitHash: string, filePath?: string): Promise<{path: string; status: 'added' | 'modified' | 'deleted' | 'unchanged'}[]> {
-    const cacheKey = `files:${commitHash}`;
-    const cached = this.cache.get<{path: string; status: 'added' | 'modified' | 'deleted' | 'unchanged'}[]>(cacheKey);
+  async getLineRangeLog(filePath: string, range: LineRange, page: number = 0, filter?: LogFilter): Promise<CommitInfo[]> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return [];
+    }
+
+    const cacheKey = `linelog:${filePath}:${range.startLine}-${range.endLine}:${page}${filter ? `:${JSON.stringify(filter)}` : ''}`;
+    const cached = this.cache.get<CommitInfo[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const relativePath = this.getRelativePathForRepo(filePath, repo.root);
+      // -L always prints the patch, so each commit is prefixed with a record separator
+      // and the hunk header tells where the tracked lines live in that revision
+      const readLog = async (pageArgs: string[]): Promise<CommitInfo[]> => this.parseLineRangeLogOutput(await repo.git.raw([
+        'log',
+        `-L${range.startLine},${range.endLine}:${relativePath}`,
+        ...pageArgs,
+        ...this.getLogFilterArgs(filter),
+        '--decorate=full',
+        '--format=%x1e%H%x1f%ai%x1f%s%x1f%an%x1f%ae%x1f%D%x1f%P'
+      ]));
+
+      const shaPrefix = filter?.shaPrefix?.toLowerCase();
+      const commits = shaPrefix
+        ? await this.getShaPrefixPage(`linelog:${filePath}:${range.startLine}-${range.endLine}:${JSON.stringify(filter)}`, filePath, shaPrefix, page, () => readLog([]))
+        : await readLog(['--max-count=50', `--skip=${page * 50}`]);
+      this.cache.set(cacheKey, commits, { filePath });
+      return commits;
+    } catch (error) {
+      console.error('Error fetching line range log:', error);
+      return [];
+    }
+  }
+
+  // `git log -L` counts lines in HEAD, but editor ranges count them in the buffer. Blaming the
+  // buffer with HEAD as the boundary gives every committed line its line number in HEAD.
+  // Resolves to undefined when none of the lines are committed yet
+  async mapRangeToHead(filePath: string, range: LineRange, contents: string): Promise<LineRange | undefined> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return undefined;
+    }
+
+    try {
+      const relativePath = this.getRelativePathForRepo(filePath, repo.root);
+      const result = await this.runGitWithInput(repo.root, [
+        'blame', '--porcelain', '--contents', '-', `-L${range.startLine},${range.endLine}`, '^HEAD', '--', relativePath
+      ], contents);
+
+      let headRange: LineRange | undefined;
+      for (const line of this.parseBlameOutput(result)) {
+        if (line.commitHash === UNCOMMITTED_HASH) {
+          continue;
+        }
+        headRange = {
+          startLine: Math.min(headRange?.startLine ?? line.originalLineNumber, line.originalLineNumber),
+          endLine: Math.max(headRange?.endLine ?? line.originalLineNumber, line.originalLineNumber)
+        };
+      }
+      return headRange;
+    } catch (error) {
+      // Files that aren't in HEAD can't be blamed against it
+      console.error('Error mapping line range to HEAD:', error);
+      return undefined;
+    }
+  }
+
+  // A remembered ref may have been deleted or renamed since it was picked
+  async refExists(filePath: string, ref: string): Promise<boolean> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return false;
+    }
+
+    try {
+      // With --quiet git exits without any output, which simple-git doesn't report as an error
+      const hash = await repo.git.raw(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+      return hash.trim().length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async getRefs(filePath: string): Promise<GitRef[]> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return [];
+    }
+
+    try {
+      const result = await repo.git.raw([
+        'for-each-ref',
+        '--format=%(refname)%09%(refname:short)',
+        'refs/heads',
+        'refs/remotes',
+        'refs/tags'
+      ]);
+
+      const refs: GitRef[] = [];
+      for (const line of result.split('\n')) {
+        const [fullName, name] = line.split('\t');
+        // refs/remotes/origin/HEAD is only an alias for the remote's default branch
+        if (!name || fullName.endsWith('/HEAD')) {
+          continue;
+        }
+        const type = fullName.startsWith('refs/heads/') ? 'branch'
+          : fullName.startsWith('refs/remotes/') ? 'remote'
+          : 'tag';
+        refs.push({ name, type });
+      }
+      return refs;
+    } catch (error) {
+      console.error('Error fetching refs:', error);
+      return [];
+    }
+  }
+
+  private getLogFilterArgs(filter: LogFilter | undefined): string[] {
+    if (!filter) {
+      return [];
+    }
+
+    const args: string[] = [];
+    if (filter.author) {
+      args.push(`--author=${filter.author}`);
+    }
+    if (filter.message) {
+      args.push(`--grep=${filter.message}`);
+    }
+    if (filter.author || filter.message) {
+      args.push('--regexp-ignore-case', '--perl-regexp');
+    }
+    if (filter.since) {
+      args.push(`--since=${filter.since}`);
+    }
+    if (filter.until) {
+      args.push(`--until=${filter.until}`);
+    }
+    return args;
+  }
+
+  // A sha prefix is matched against the full history, which is read once per filter and
+  // cached so that loading more pages only slices it
+  private async getShaPrefixPage(cacheKey: string, filePath: string, shaPrefix: string, page: number, readAll: () => Promise<CommitInfo[]>): Promise<CommitInfo[]> {
+    const allKey = `${cacheKey}:sha`;
+    let matches = this.cache.get<CommitInfo[]>(allKey);
+    if (!matches) {
+      matches = (await readAll()).filter(commit => commit.hash.startsWith(shaPrefix));
+      this.cache.set(allKey, matches, { filePath });
+    }
+    return matches.slice(page * 50, (page + 1) * 50);
+  }
+
+  private parseLineRangeLogOutput(output: string): CommitInfo[] {
+    const commits: CommitInfo[] = [];
+
+    for (const record of output.split('\x1e')) {
+      if (!record.trim()) {
+        continue;
+      }
+
+      const newlineIndex = record.indexOf('\n');
+      const header = newlineIndex === -1 ? record : record.substring(0, newlineIndex);
+      const patch = newlineIndex === -1 ? '' : record.substring(newlineIndex + 1);
+      const [hash, date, message, author, authorEmail, refs, parents] = header.split('\x1f');
+
+      const commit: CommitInfo = {
+        hash,
+        date,
+        message,
+        author,
+        authorEmail,
+        refs: parseRefDecorations(refs || ''),
+        parents: (parents || '').split(' ').filter(Boolean)
+      };
+
+      // Hunk header: @@ -a,b +c,d @@ where c,d is the tracked range in this commit
+      const hunkMatch = patch.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/m);
+      if (hunkMatch) {
+        const startLine = parseInt(hunkMatch[1], 10);
+        const lineCount = hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1;
+        commit.range = {
+          startLine: Math.max(startLine, 1),
+          endLine: Math.max(startLine + lineCount - 1, startLine, 1)
+        };
+      }
+
+      commits.push(commit);
+    }
+
+    return commits;
+  }
+
+  // Merges are compared with their first parent unless another parent is given;
+  // parent 0 lists the files the merge changed relative to every parent (its combined diff)
+  async getChangedFiles(commitHash: string, filePath?: string, parentNumber: number = 1): Promise<ChangedFile[]> {
+    await this.initializationPromise;
+
+    const cacheKey = `files:${commitHash}:${parentNumber}`;
+    const cached = this.cache.get<ChangedFile[]>(cacheKey);
     if (cached) {
       return cached;
     }
@@ -188,37 +563,18 @@ export class GitService {
     try {
       // Get file names and their status
       // Note: Options must come before commit hash
-      const result = await git.show(['--name-status', '--pretty=format:', commitHash]);
-      console.log('Git show result:', result);
-      const lines = result.split('\n').filter((line: string) => line.trim());
-      
-      const files: {path: string; status: 'added' | 'modified' | 'deleted' | 'unchanged'}[] = [];
-      
-      for (const line of lines) {
-        // Match status and file path (handles renames with RXXX status too)
-        const match = line.match(/^([AMDRT]\d*)\s+(.+)$/);
-        if (match) {
-          const status = match[1];
-          const filePath = match[2];
-          let fileStatus: 'added' | 'modified' | 'deleted' | 'unchanged';
-          
-          if (status.startsWith('A')) {
-            fileStatus = 'added';
-          } else if (status.startsWith('M')) {
-            fileStatus = 'modified';
-          } else if (status.startsWith('D')) {
-            fileStatus = 'deleted';
-          } else if (status.startsWith('R')) {
-            fileStatus = 'modified'; // Renamed files are treated as modified
-          } else if (status.startsWith('T')) {
-            fileStatus = 'modified'; // Type changed files are treated as modified
-          } else {
-            fileStatus = 'unchanged';
-          }
-          
-          files.push({ path: filePath, status: fileStatus });
-        }
+      // -z leaves paths unquoted, matching the keys of getFileStats for non-ASCII names
+      const nameStatusArgs = ['--name-status', '-z', '--find-renames', '--find-copies'];
+      let result: string;
+      if (parentNumber === 0) {
+        result = await git.show([...nameStatusArgs, '--cc', '--pretty=format:', commitHash]);
+      } else if (parentNumber === 1) {
+        result = await git.show([...nameStatusArgs, '-m', '--first-parent', '--pretty=format:', commitHash]);
+      } else {
+        result = await git.raw(['diff', ...nameStatusArgs, `${commitHash}^${parentNumber}`, commitHash]);
       }
+      console.log('Git show result:', result);
+      const files = parseNameStatus(result);
 
       console.log('Parsed files:', files);
       this.cache.set(cacheKey, files, { filePath: '', commitHash });
@@ -229,7 +585,7 @@ export class GitService {
     }
   }
 
-  async getParentCommit(commitHash: string, filePath?: string): Promise<string | null> {
+  async getParentCommit(commitHash: string, filePath?: string, parentNumber: number = 1): Promise<string | null> {
     try {
       let git: SimpleGit;
       if (filePath) {
@@ -241,12 +597,74 @@ export class GitService {
       } else {
         git = this.mainGit;
       }
-      return await git.revparse([`${commitHash}^`]);
+      return await git.revparse([`${commitHash}^${parentNumber}`]);
     } catch {
       return null;
     }
   }
 
+  // History items carry the file's current path, so the path it had at an older commit is
+  // looked up in the --follow history. Resolves to the absolute path, or undefined when the
+  // file didn't exist at that commit
+  // ref is the history the commit came from, so commits that HEAD can't reach are followed too
+  async getPathAtCommit(commitHash: string, filePath: string, ref?: string): Promise<string | undefined> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return undefined;
+    }
+
+    const paths = await this.getPathsAcrossRenames(filePath, ref);
+    // Commits that didn't touch the file, like HEAD, fall back to the current path
+    const pathAtCommit = paths[commitHash] || this.getRelativePathForRepo(filePath, repo.root);
+    try {
+      await repo.git.raw(['cat-file', '-e', `${commitHash}:${pathAtCommit}`]);
+      return path.join(repo.root, pathAtCommit);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Maps each commit that touched the file, following renames, to the file's repo-relative path in it
+  async getPathsAcrossRenames(filePath: string, ref?: string): Promise<Record<string, string>> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return {};
+    }
+
+    const cacheKey = `paths:${filePath}:${ref || 'HEAD'}`;
+    const cached = this.cache.get<Record<string, string>>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const paths: Record<string, string> = {};
+    try {
+      const relativePath = this.getRelativePathForRepo(filePath, repo.root);
+      const args = ['log', '--follow', '--name-only', '-z', '--format=%x1e%H'];
+      // ALL_REFS is passed through as --all
+      if (ref) {
+        args.push(ref);
+      }
+      args.push('--', relativePath);
+      const result = await repo.git.raw(args);
+      for (const record of result.split('\x1e')) {
+        // Each record is the hash and the path the commit touched, both NUL-terminated
+        const [hash, name] = record.split('\0').map(field => field.trim()).filter(Boolean);
+        if (hash && name) {
+          paths[hash] = name;
+        }
+      }
+      this.cache.set(cacheKey, paths, { filePath });
+    } catch (error) {
+      console.error('Error fetching file paths across renames:', error);
+    }
+    return paths;
+  }
+
   async getFileContent(commitHash: string, filePath: string): Promise<string> {
     const cacheKey = `content:${commitHash}:${filePath}`;
     const cached = this.cache.get<string>(cacheKey);
@@ -263,7 +681,9 @@ export class GitService {
       // Convert absolute path to relative path from repo root
       const relativePath = this.getRelativePathForRepo(filePath, repo.root);
       console.log('Getting file content for:', relativePath, 'from commit:', commitHash);
-      const content = await repo.git.show([`${commitHash}:${relativePath}`]);
+      // git show :path reads the file from the index
+      const revision = commitHash === INDEX_REVISION ? '' : commitHash;
+      const content = await repo.git.show([`${revision}:${relativePath}`]);
       this.cache.set(cacheKey, content, { filePath, commitHash });
       return content;
     } catch (error) {
@@ -272,23 +692,236 @@ export class GitService {
     }
   }
 
+  // Not cached: edits to the working tree don't touch .git, so the watcher wouldn't notice them
+  async getWorkingTreeStatus(filePath: string): Promise<WorkingTreeStatus> {
+    await this.initializationPromise;
+
+    const status: WorkingTreeStatus = { staged: false, unstaged: false };
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return status;
+    }
+
+    try {
+      const relativePath = this.getRelativePathForRepo(filePath, repo.root);
+      const result = await repo.git.raw(['status', '--porcelain', '--', relativePath]);
+      const line = result.split('\n').find(Boolean);
+      // Untracked and ignored files have nothing in HEAD or the index to compare with
+      if (!line || line.startsWith('??') || line.startsWith('!!')) {
+        return status;
+      }
+      status.staged = line[0] !== ' ';
+      status.unstaged = line[1] !== ' ';
+      return status;
+    } catch (error) {
+      console.error('Error fetching working tree status:', error);
+      return status;
+    }
+  }
+
+  // pathAtCommit is the repo-relative path in that commit, which differs from filePath after a rename
+  async getCommitFileDiff(commitHash: string, filePath: string, pathAtCommit?: string): Promise<string> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return '';
+    }
+
+    const relativePath = pathAtCommit || this.getRelativePathForRepo(filePath, repo.root);
+    const cacheKey = `diff:${commitHash}:${relativePath}`;
+    const cached = this.cache.get<string>(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      // Merges are diffed against their first parent, root commits against nothing
+      const diff = await repo.git.raw(['show', '--format=', '--no-color', '-m', '--first-parent', commitHash, '--', relativePath]);
+      this.cache.set(cacheKey, diff, { filePath, commitHash });
+      return diff;
+    } catch (error) {
+      console.error('Error fetching commit diff:', error);
+      return '';
+    }
+  }
+
+  // Keyed by the file's path in the commit; parent numbers work as in getChangedFiles
+  async getFileStats(commitHash: string, filePath: string, parentNumber: number = 1): Promise<Map<string, FileStat>> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    // The combined diff has no per-file line counts
+    if (!repo || parentNumber === 0) {
+      return new Map();
+    }
+
+    const cacheKey = `numstat:${commitHash}:${parentNumber}`;
+    const cached = this.cache.get<Map<string, FileStat>>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const numstatArgs = ['--numstat', '-z', '--find-renames', '--find-copies'];
+      const result = parentNumber === 1
+        ? await repo.git.raw(['show', ...numstatArgs, '-m', '--first-parent', '--format=', commitHash])
+        : await repo.git.raw(['diff', ...numstatArgs, `${commitHash}^${parentNumber}`, commitHash]);
+
+      const stats = parseNumstat(result);
+      this.cache.set(cacheKey, stats, { filePath: '', commitHash });
+      return stats;
+    } catch (error) {
+      console.error('Error fetching file stats:', error);
+      return new Map();
+    }
+  }
+
+  async getCommitDetails(commitHash: string, filePath: string, parentNumber: number = 1): Promise<CommitDetails | null> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return null;
+    }
+
+    try {
+      // The message goes last since it's the only field that can span lines
+      const result = await repo.git.raw([
+        'show',
+        '-s',
+        '--decorate=full',
+        '--format=%H%x1f%P%x1f%D%x1f%an%x1f%ae%x1f%aI%x1f%cn%x1f%ce%x1f%cI%x1f%(trailers:only,unfold)%x1f%B',
+        commitHash
+      ]);
+      const [hash, parents, refs, author, authorEmail, authorDate, committer, committerEmail, committerDate, trailers, ...message] = result.split('\x1f');
+
+      const { subject, body, trailers: trailerList } = parseCommitMessage(message.join('\x1f'), trailers);
+
+      const [files, stats] = await Promise.all([
+        this.getChangedFiles(hash, filePath, parentNumber),
+        this.getFileStats(hash, filePath, parentNumber)
+      ]);
+
+      return {
+        hash,
+        parents: parents.split(' ').filter(Boolean),
+        refs: parseRefDecorations(refs),
+        author,
+        authorEmail,
+        authorDate,
+        committer,
+        committerEmail,
+        committerDate,
+        subject,
+        body,
+        trailers: trailerList,
+        files: files.map(file => ({ ...file, stat: stats.get(file.path) }))
+      };
+    } catch (error) {
+      console.error('Error fetching commit details:', error);
+      return null;
+    }
+  }
+
+  // Shows how a merge combined its parents; empty for merges without conflict resolutions
+  async getCombinedDiff(commitHash: string, filePath: string): Promise<string> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return '';
+    }
+
+    try {
+      const relativePath = this.getRelativePathForRepo(filePath, repo.root);
+      return await repo.git.raw(['show', '--cc', '--format=', '--no-color', commitHash, '--', relativePath]);
+    } catch (error) {
+      console.error('Error fetching combined diff:', error);
+      return '';
+    }
+  }
+
+  // Returns the hunk of the commit's diff that touched lineNumber (in the commit's version of the file),
+  // trimmed to maxLines around that line
+  async getLineHunk(commitHash: string, filePath: string, pathAtCommit: string | undefined, lineNumber: number, maxLines: number = 20): Promise<string | undefined> {
+    const diff = await this.getCommitFileDiff(commitHash, filePath, pathAtCommit);
+    const lines = diff.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const header = lines[i].match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+      if (!header) {
+        continue;
+      }
+
+      const newStart = parseInt(header[1], 10);
+      const newCount = header[2] !== undefined ? parseInt(header[2], 10) : 1;
+      if (lineNumber < newStart || lineNumber >= newStart + newCount) {
+        continue;
+      }
+
+      // Collect the hunk body and find the target line by walking the new-side line numbers
+      const body: string[] = [];
+      let targetIndex = 0;
+      let newLine = newStart;
+      for (let j = i + 1; j < lines.length && !lines[j].startsWith('@@') && !lines[j].startsWith('diff '); j++) {
+        const bodyLine = lines[j];
+        if (bodyLine.startsWith('\\')) {
+          continue;
+        }
+        if (!bodyLine.startsWith('-')) {
+          if (newLine === lineNumber) {
+            targetIndex = body.length;
+          }
+          newLine++;
+        }
+        body.push(bodyLine);
+      }
+
+      const start = Math.max(0, Math.min(targetIndex - Math.floor(maxLines / 2), body.length - maxLines));
+      const excerpt = body.slice(start, start + maxLines);
+      return [lines[i], ...excerpt].join('\n').replace(/\n+$/, '');
+    }
+
+    return undefined;
+  }
+
   invalidateCache(filePath?: string): void {
     this.cache.invalidate(filePath);
   }
 
+  // Remotes only change with .git/config, so they are kept until clearRemoteUrls is called
+  clearRemoteUrls(): void {
+    this.remoteUrls.clear();
+  }
+
   async getGitHubRemoteUrl(filePath?: string): Promise<string | null> {
-    try {
-      let git: SimpleGit;
-      if (filePath) {
-        const repo = this.getRepoForFile(filePath);
-        if (!repo) {
-          return null;
-        }
-        git = repo.git;
-      } else {
-        git = this.mainGit;
+    await this.initializationPromise;
+
+    let git: SimpleGit;
+    let root: string;
+    if (filePath) {
+      const repo = this.getRepoForFile(filePath);
+      if (!repo) {
+        return null;
       }
-      
+      git = repo.git;
+      root = repo.root;
+    } else {
+      git = this.mainGit;
+      root = this.workspaceRoot;
+    }
+
+    if (this.remoteUrls.has(root)) {
+      return this.remoteUrls.get(root)!;
+    }
+    const url = await this.readGitHubRemoteUrl(git);
+    this.remoteUrls.set(root, url);
+    return url;
+  }
+
+  private async readGitHubRemoteUrl(git: SimpleGit): Promise<string | null> {
+    try {
       const remotes = await git.getRemotes(true);
       const origin = remotes.find(r => r.name === 'origin');
       
@@ -317,7 +950,39 @@ export class GitService {
     }
   }
 
-  async getBlame(filePath: string): Promise<BlameLineInfo[]> {
+  // Date of the oldest root commit, used as the far end of the blame heatmap
+  async getRepositoryStartDate(filePath: string): Promise<string | null> {
+    await this.initializationPromise;
+
+    const repo = this.getRepoForFile(filePath);
+    if (!repo) {
+      return null;
+    }
+
+    const cacheKey = `repostart:${repo.root}`;
+    const cached = this.cache.get<string>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const result = await repo.git.raw(['log', '--max-parents=0', '--format=%at', 'HEAD']);
+      const timestamps = result.split('\n').filter(line => line.trim()).map(line => parseInt(line, 10));
+      if (timestamps.length === 0) {
+        return null;
+      }
+      const startDate = new Date(Math.min(...timestamps) * 1000).toISOString();
+      this.cache.set(cacheKey, startDate, { filePath: '' });
+      return startDate;
+    } catch (error) {
+      console.error('Error fetching repository start date:', error);
+      return null;
+    }
+  }
+
+  // Passing contents blames an unsaved buffer instead of the file on disk; the
+  // result isn't cached here since it is only valid for that document version
+  async getBlame(filePath: string, revision?: string, contents?: string): Promise<BlameLineInfo[]> {
     await this.initializationPromise;
     
     const repo = this.getRepoForFile(filePath);
@@ -325,7 +990,19 @@ export class GitService {
       return [];
     }
 
-    const cacheKey = `blame:${filePath}`;
+    if (contents !== undefined && !revision) {
+      try {
+        const relativePath = this.getRelativePathForRepo(filePath, repo.root);
+        const args = [...await this.getBlameArgs(repo.root), '--contents', '-', '--', relativePath];
+        const result = await this.runGitWithInput(repo.root, args, contents);
+        return this.parseBlameOutput(result);
+      } catch (error) {
+        console.error('Error fetching git blame for buffer:', error);
+        return [];
+      }
+    }
+
+    const cacheKey = revision ? `blame:${filePath}:${revision}` : `blame:${filePath}`;
     const cached = this.cache.get<BlameLineInfo[]>(cacheKey);
     if (cached) {
       return cached;
@@ -333,10 +1010,16 @@ export class GitService {
 
     try {
       const relativePath = this.getRelativePathForRepo(filePath, repo.root);
-      const result = await repo.git.raw(['blame', '--porcelain', relativePath]);
+      // Without a revision git blames the working tree file
+      const args = await this.getBlameArgs(repo.root);
+      if (revision) {
+        args.push(revision);
+      }
+      args.push('--', relativePath);
+      const result = await repo.git.raw(args);
       
       const blameInfo = this.parseBlameOutput(result);
-      this.cache.set(cacheKey, blameInfo, { filePath });
+      this.cache.set(cacheKey, blameInfo, { filePath, commitHash: revision });
       return blameInfo;
     } catch (error) {
       console.error('Error fetching git blame:', error);
@@ -344,6 +1027,76 @@ export class GitService {
     }
   }
 
+  private async getBlameArgs(repoRoot: string): Promise<string[]> {
+    const args = ['blame', '--porcelain'];
+    const options = this.blameOptions;
+
+    if (options.ignoreWhitespace) {
+      args.push('-w');
+    }
+    if (options.moveDetection === 'withinFile') {
+      args.push('-M');
+    } else if (options.moveDetection === 'acrossFiles') {
+      args.push('-M', '-C');
+    }
+
+    for (const file of await this.getIgnoreRevsFiles(repoRoot)) {
+      args.push('--ignore-revs-file', file);
+    }
+
+    return args;
+  }
+
+  // Resolved once per repository until the blame options change
+  private getIgnoreRevsFiles(repoRoot: string): Promise<string[]> {
+    let files = this.ignoreRevsFiles.get(repoRoot);
+    if (!files) {
+      files = this.findIgnoreRevsFiles(repoRoot);
+      this.ignoreRevsFiles.set(repoRoot, files);
+    }
+    return files;
+  }
+
+  private async findIgnoreRevsFiles(repoRoot: string): Promise<string[]> {
+    const options = this.blameOptions;
+    const ignoreRevsFiles = options.useDefaultIgnoreRevsFile
+      ? [DEFAULT_IGNORE_REVS_FILE, ...options.ignoreRevsFiles]
+      : options.ignoreRevsFiles;
+    const fullPaths = [...new Set(ignoreRevsFiles)].map(file => path.resolve(repoRoot, file));
+
+    // git fails the whole blame on a missing ignore-revs file, so only pass the ones that exist
+    const exists = await Promise.all(fullPaths.map(fullPath =>
+      fs.promises.access(fullPath).then(() => true, () => false)
+    ));
+    return fullPaths.filter((_, index) => exists[index]);
+  }
+
+  // simple-git can't write to stdin, so commands that read input are spawned directly
+  private runGitWithInput(cwd: string, args: string[], input: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, { cwd });
+      let stdout = '';
+      let stderr = '';
+
+      child.stdout.setEncoding('utf8');
+      child.stderr.setEncoding('utf8');
+      child.stdout.on('data', (chunk: string) => { stdout += chunk; });
+      child.stderr.on('data', (chunk: string) => { stderr += chunk; });
+      // git may exit before reading all input; the close handler reports the failure
+      child.stdin.on('error', () => {});
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(stderr.trim() || `git ${args[0]} exited with code ${code}`));
+        }
+      });
+
+      child.stdin.end(input);
+    });
+  }
+
   private parseBlameOutput(output: string): BlameLineInfo[] {
     const lines = output.split('\n');
     const blameInfo: BlameLineInfo[] = [];
@@ -355,6 +1108,7 @@ export class GitService {
         // New line entry: hash original-line line-number
         const parts = line.split(' ');
         currentCommitHash = parts[0];
+        const originalLineNumber = parseInt(parts[1], 10);
         const lineNumber = parseInt(parts[2], 10);
         
         // Get cached commit info or create new
@@ -367,11 +1121,15 @@ export class GitService {
         // Push the line with current commit info (may be incomplete if author not yet parsed)
         blameInfo.push({
           lineNumber: lineNumber,
+          originalLineNumber: originalLineNumber,
           commitHash: currentCommitHash,
           author: commitInfo.author || 'Unknown',
           authorEmail: commitInfo.authorEmail || '',
           date: commitInfo.date || new Date().toISOString(),
-          summary: commitInfo.summary || ''
+          summary: commitInfo.summary || '',
+          filename: commitInfo.filename,
+          previousHash: commitInfo.previousHash,
+          previousFilename: commitInfo.previousFilename
         });
       } else if (line.startsWith('author ')) {
         const author = line.substring(7);
@@ -397,6 +1155,20 @@ export class GitService {
             commitInfo.date = new Date(timestamp * 1000).toISOString();
           }
         }
+      } else if (line.startsWith('previous ') || line.startsWith('filename ')) {
+        // Emitted after the line header and repeated only when a commit touched several paths,
+        // so update both the commit and the entry that was just pushed
+        const lastEntry = blameInfo[blameInfo.length - 1];
+        const commitInfo = currentCommitHash ? commitCache.get(currentCommitHash) : undefined;
+        if (line.startsWith('previous ')) {
+          const match = line.match(/^previous ([a-f0-9]{40}) (.+)$/);
+          if (match && commitInfo && lastEntry) {
+            commitInfo.previousHash = lastEntry.previousHash = match[1];
+            commitInfo.previousFilename = lastEntry.previousFilename = match[2];
+          }
+        } else if (commitInfo && lastEntry) {
+          commitInfo.filename = lastEntry.filename = line.substring(9);
+        }
       } else if (line.startsWith('summary ')) {
         const summary = line.substring(8);
         if (currentCommitHash) {
@@ -425,6 +1197,13 @@ export class GitService {
           info.summary = commitInfo.summary;
         }
       }
+
+      // Lines edited in the working tree or the unsaved buffer
+      if (info.commitHash === UNCOMMITTED_HASH) {
+        info.author = 'Not committed yet';
+        info.authorEmail = '';
+        info.summary = 'Not committed yet';
+      }
     }
 
     // Sort by line number
@@ -432,3 +1211,128 @@ export class GitService {
     return blameInfo;
   }
 }
+
+export function isPathInside(filePath: string, dir: string): boolean {
+  return filePath === dir || filePath.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep);
+}
+
+// Parses %D with --decorate=full, e.g. "HEAD -> refs/heads/main, refs/remotes/origin/main, tag: refs/tags/v1.0".
+// A detached HEAD is listed on its own ("HEAD, refs/heads/main"), even when a branch points at the same commit
+export function parseRefDecorations(decorations: string): GitRef[] {
+  const refs: GitRef[] = [];
+  for (let decoration of decorations.split(', ')) {
+    decoration = decoration.trim();
+    if (decoration === 'HEAD') {
+      refs.push({ name: 'HEAD', type: 'head' });
+      continue;
+    }
+    if (decoration.startsWith('HEAD -> ')) {
+      decoration = decoration.substring('HEAD -> '.length);
+      refs.push({ name: 'HEAD', type: 'head', target: decoration.substring('refs/heads/'.length) });
+    }
+    if (decoration.startsWith('tag: ')) {
+      decoration = decoration.substring('tag: '.length);
+    }
+
+    if (decoration.startsWith('refs/heads/')) {
+      refs.push({ name: decoration.substring('refs/heads/'.length), type: 'branch' });
+    } else if (decoration.startsWith('refs/remotes/') && !decoration.endsWith('/HEAD')) {
+      refs.push({ name: decoration.substring('refs/remotes/'.length), type: 'remote' });
+    } else if (decoration.startsWith('refs/tags/')) {
+      refs.push({ name: decoration.substring('refs/tags/'.length), type: 'tag' });
+    }
+  }
+  return refs;
+}
+
+// Parses --name-status -z output. Fields are NUL-separated: the status, then the path, or the old
+// and the new path for renames and copies (R086\0old\0new\0). -z leaves paths unquoted
+export function parseNameStatus(output: string): ChangedFile[] {
+  const fields = output.split('\0');
+  const files: ChangedFile[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const status = fields[i].trim();
+    if (!status) {
+      continue;
+    }
+    // The combined diff has one status letter per parent
+    if (/^[AMDRCT]{2,}$/.test(status)) {
+      files.push({ path: fields[++i], status: 'modified' });
+      continue;
+    }
+    if (!/^[AMDRCT]\d*$/.test(status)) {
+      continue;
+    }
+
+    if (status.startsWith('R') || status.startsWith('C')) {
+      files.push({
+        oldPath: fields[++i],
+        path: fields[++i],
+        status: status.startsWith('R') ? 'renamed' : 'copied',
+        similarity: parseInt(status.substring(1), 10) || undefined
+      });
+      continue;
+    }
+
+    let fileStatus: ChangedFile['status'];
+    if (status.startsWith('A')) {
+      fileStatus = 'added';
+    } else if (status.startsWith('D')) {
+      fileStatus = 'deleted';
+    } else {
+      fileStatus = 'modified'; // Type changed files are treated as modified
+    }
+    files.push({ path: fields[++i], status: fileStatus });
+  }
+  return files;
+}
+
+// Parses --numstat -z output into stats keyed by the (new) path: "added\tdeleted\tpath\0",
+// or "added\tdeleted\t\0old\0new\0" for renames and copies. Binary files count "-" lines
+export function parseNumstat(output: string): Map<string, FileStat> {
+  const stats = new Map<string, FileStat>();
+  const tokens = output.split('\0');
+  for (let i = 0; i < tokens.length; i++) {
+    const match = tokens[i].replace(/^\n+/, '').match(/^(-|\d+)\t(-|\d+)\t(.*)$/);
+    if (!match) {
+      continue;
+    }
+    let path = match[3];
+    if (!path) {
+      path = tokens[i + 2];
+      i += 2;
+    }
+    const binary = match[1] === '-';
+    stats.set(path, {
+      additions: binary ? 0 : parseInt(match[1], 10),
+      deletions: binary ? 0 : parseInt(match[2], 10),
+      binary
+    });
+  }
+  return stats;
+}
+
+// Splits a raw message (%B) into subject and body, using the trailers git parsed
+// (%(trailers:only,unfold)). The trailers are returned separately, so their paragraph is dropped from the body
+export function parseCommitMessage(rawMessage: string, rawTrailers: string): { subject: string; body: string; trailers: CommitTrailer[] } {
+  const fullMessage = rawMessage.trim();
+  const newlineIndex = fullMessage.indexOf('\n');
+  const trailers = rawTrailers.split('\n').map(line => {
+    const separator = line.indexOf(':');
+    return { key: line.substring(0, separator).trim(), value: line.substring(separator + 1).trim() };
+  }).filter(trailer => trailer.key && trailer.value);
+
+  let body = newlineIndex === -1 ? '' : fullMessage.substring(newlineIndex + 1).trim();
+  const lastBreak = body.lastIndexOf('\n\n');
+  const lastParagraph = body.substring(lastBreak === -1 ? 0 : lastBreak + 2);
+  if (trailers.length > 0 && lastParagraph.split('\n').every(line => /^[\w-]+:\s/.test(line))) {
+    body = lastBreak === -1 ? '' : body.substring(0, lastBreak).trim();
+  }
+
+  return {
+    subject: newlineIndex === -1 ? fullMessage : fullMessage.substring(0, newlineIndex),
+    body,
+    trailers
+  };
+}
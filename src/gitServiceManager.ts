@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitService, BlameOptions, isPathInside } from './gitService';
+import { GitWatcher } from './gitWatcher';
+
+interface WorkspaceRepo {
+  folder: vscode.WorkspaceFolder;
+  service: GitService;
+  watcher: GitWatcher;
+}
+
+export class GitServiceManager {
+  private repos: Map<string, WorkspaceRepo> = new Map();
+  private disposables: vscode.Disposable[] = [];
+
+  private _onDidChangeRepositories: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidChangeRepositories: vscode.Event<void> = this._onDidChangeRepositories.event;
+
+  constructor(private onGitChange: (service: GitService) => void) {
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      this.addFolder(folder);
+    }
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(e => {
+        e.removed.forEach(folder => this.removeFolder(folder));
+        e.added.forEach(folder => this.addFolder(folder));
+        this._onDidChangeRepositories.fire();
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('gitHistory.blameIgnoreWhitespace') ||
+            e.affectsConfiguration('gitHistory.blameMoveDetection') ||
+            e.affectsConfiguration('gitHistory.blameUseIgnoreRevsFile') ||
+            e.affectsConfiguration('gitHistory.blameIgnoreRevsFiles')) {
+          const options = this.readBlameOptions();
+          this.getServices().forEach(service => service.setBlameOptions(options));
+        }
+      })
+    );
+  }
+
+  private readBlameOptions(): BlameOptions {
+    const config = vscode.workspace.getConfiguration('gitHistory');
+    return {
+      ignoreWhitespace: config.get('blameIgnoreWhitespace', false),
+      moveDetection: config.get('blameMoveDetection', 'off'),
+      useDefaultIgnoreRevsFile: config.get('blameUseIgnoreRevsFile', true),
+      ignoreRevsFiles: config.get('blameIgnoreRevsFiles', [])
+    };
+  }
+
+  private addFolder(folder: vscode.WorkspaceFolder): void {
+    const root = path.normalize(folder.uri.fsPath);
+    if (folder.uri.scheme !== 'file' || this.repos.has(root)) {
+      return;
+    }
+
+    const service = new GitService(root, workspaceRoot => this.findGitEntries(folder, workspaceRoot));
+    service.setBlameOptions(this.readBlameOptions());
+    const watcher = new GitWatcher(root, () => this.onGitChange(service), async () => {
+      await service.refreshRepositories();
+      this.onGitChange(service);
+    }, () => service.clearRemoteUrls());
+    this.repos.set(root, { folder, service, watcher });
+    console.log('Added git service for workspace folder:', root);
+  }
+
+  // findFiles only returns files, so .git directories are found through their HEAD file.
+  // files.exclude is honored, except for its .git entries, which would hide every repository.
+  // Its keys may contain braces themselves, so they are matched here rather than joined into one glob
+  private async findGitEntries(folder: vscode.WorkspaceFolder, workspaceRoot: string): Promise<string[]> {
+    const fileExcludes = vscode.workspace.getConfiguration('files', folder.uri).get<Record<string, unknown>>('exclude', {});
+    const excludes = Object.keys(fileExcludes)
+      .filter(pattern => fileExcludes[pattern] === true && !pattern.split('/').includes('.git'))
+      .map(globToRegExp);
+
+    const uris = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(workspaceRoot, '{**/.git,**/.git/HEAD}'),
+      '**/node_modules/**'
+    );
+    return uris
+      .map(uri => path.basename(uri.fsPath) === 'HEAD' ? path.dirname(uri.fsPath) : uri.fsPath)
+      .filter(entryPath => !isExcluded(path.relative(workspaceRoot, entryPath), excludes));
+  }
+
+  private removeFolder(folder: vscode.WorkspaceFolder): void {
+    const root = path.normalize(folder.uri.fsPath);
+    const repo = this.repos.get(root);
+    if (repo) {
+      repo.watcher.dispose();
+      this.repos.delete(root);
+      console.log('Removed git service for workspace folder:', root);
+    }
+  }
+
+  getServiceForFile(filePath: string): GitService | undefined {
+    const normalizedFile = path.normalize(filePath);
+
+    // Nested workspace folders are allowed, so prefer the deepest match
+    let best: { root: string; service: GitService } | undefined;
+    for (const [root, repo] of this.repos.entries()) {
+      if (isPathInside(normalizedFile, root) && (!best || root.length > best.root.length)) {
+        best = { root, service: repo.service };
+      }
+    }
+
+    return best?.service;
+  }
+
+  getServices(): GitService[] {
+    return Array.from(this.repos.values()).map(repo => repo.service);
+  }
+
+  invalidateCache(): void {
+    this.getServices().forEach(service => service.invalidateCache());
+  }
+
+  dispose(): void {
+    this.repos.forEach(repo => repo.watcher.dispose());
+    this.repos.clear();
+    this.disposables.forEach(d => d.dispose());
+    this._onDidChangeRepositories.dispose();
+  }
+}
+
+// An excluded folder hides everything below it, so every ancestor of the path is checked too
+function isExcluded(relativePath: string, excludes: RegExp[]): boolean {
+  const parts = relativePath.split(/[\\/]/);
+  for (let i = 1; i <= parts.length; i++) {
+    const prefix = parts.slice(0, i).join('/');
+    if (excludes.some(exclude => exclude.test(prefix))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Converts a files.exclude glob (**, *, ?, {a,b} and [...]) to an anchored regular expression
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no folder at all
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += '[' + glob.substring(i + 1, end).replace(/^!/, '^') + ']';
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
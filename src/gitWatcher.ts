@@ -1,31 +1,74 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 
 export class GitWatcher {
   private disposables: vscode.Disposable[] = [];
   private onChangeCallback: () => void;
+  private onRepositoriesChangeCallback: (() => void) | undefined;
+  private onConfigChangeCallback: (() => void) | undefined;
 
   constructor(
     private gitRoot: string,
-    onChange: () => void
+    onChange: () => void,
+    onRepositoriesChange?: () => void,
+    onConfigChange?: () => void
   ) {
     this.onChangeCallback = onChange;
+    this.onRepositoriesChangeCallback = onRepositoriesChange;
+    this.onConfigChangeCallback = onConfigChange;
     this.setupWatcher();
+    this.setupRepositoryWatcher();
+    this.setupConfigWatcher();
   }
 
   private setupWatcher(): void {
-    const gitPattern = new vscode.RelativePattern(this.gitRoot, '.git/**/*');
+    // Includes nested repositories' .git folders, not only the root one
+    const gitPattern = new vscode.RelativePattern(this.gitRoot, '**/.git/**/*');
     const watcher = vscode.workspace.createFileSystemWatcher(gitPattern);
 
-    let timeout: NodeJS.Timeout | null = null;
-    const debouncedChange = () => {
-      if (timeout) {
-        clearTimeout(timeout);
+    const debouncedChange = this.debounce(() => this.onChangeCallback());
+
+    watcher.onDidChange(debouncedChange);
+    watcher.onDidCreate(debouncedChange);
+    watcher.onDidDelete(debouncedChange);
+
+    this.disposables.push(watcher);
+  }
+
+  private setupRepositoryWatcher(): void {
+    if (!this.onRepositoriesChangeCallback) {
+      return;
+    }
+
+    // A .git directory or gitdir file appearing or disappearing means a repo was cloned, added or removed
+    const repoPattern = new vscode.RelativePattern(this.gitRoot, '**/.git');
+    const watcher = vscode.workspace.createFileSystemWatcher(repoPattern, false, true, false);
+
+    const debouncedChange = this.debounce(() => this.onRepositoriesChangeCallback?.());
+    // Events for files inside a .git directory can match too, and those are not new repositories
+    const onRepoEntryChange = (uri: vscode.Uri) => {
+      if (path.basename(uri.fsPath) === '.git') {
+        debouncedChange();
       }
-      timeout = setTimeout(() => {
-        this.onChangeCallback();
-      }, 500);
     };
 
+    watcher.onDidCreate(onRepoEntryChange);
+    watcher.onDidDelete(onRepoEntryChange);
+
+    this.disposables.push(watcher);
+  }
+
+  private setupConfigWatcher(): void {
+    if (!this.onConfigChangeCallback) {
+      return;
+    }
+
+    // Remotes are read from .git/config, including nested repositories' configs
+    const configPattern = new vscode.RelativePattern(this.gitRoot, '**/.git/config');
+    const watcher = vscode.workspace.createFileSystemWatcher(configPattern);
+
+    const debouncedChange = this.debounce(() => this.onConfigChangeCallback?.());
+
     watcher.onDidChange(debouncedChange);
     watcher.onDidCreate(debouncedChange);
     watcher.onDidDelete(debouncedChange);
@@ -33,6 +76,16 @@ export class GitWatcher {
     this.disposables.push(watcher);
   }
 
+  private debounce(callback: () => void): () => void {
+    let timeout: NodeJS.Timeout | null = null;
+    return () => {
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+      timeout = setTimeout(callback, 500);
+    };
+  }
+
   dispose(): void {
     this.disposables.forEach(d => d.dispose());
   }
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { LogFilter } from './gitService';
+
+type FilterField = keyof LogFilter;
+
+interface FilterFieldInfo {
+  label: string;
+  prompt: string;
+  placeHolder: string;
+  validate: (value: string) => string | undefined;
+}
+
+const FILTER_FIELDS: Record<FilterField, FilterFieldInfo> = {
+  author: {
+    label: 'Author',
+    prompt: 'Author name or email (regex)',
+    placeHolder: 'e.g. jane or @example\\.com$',
+    validate: validateRegex
+  },
+  message: {
+    label: 'Message',
+    prompt: 'Text or regex to search for in commit messages',
+    placeHolder: 'e.g. fix|bug',
+    validate: validateRegex
+  },
+  since: {
+    label: 'Since',
+    prompt: 'Only commits after this date',
+    placeHolder: 'e.g. 2024-01-31 or 2 weeks ago',
+    validate: validateDate
+  },
+  until: {
+    label: 'Until',
+    prompt: 'Only commits before this date',
+    placeHolder: 'e.g. 2024-12-31 or yesterday',
+    validate: validateDate
+  },
+  shaPrefix: {
+    label: 'SHA',
+    prompt: 'Start of the commit hash (at least 4 characters)',
+    placeHolder: 'e.g. 1a2b3c4',
+    validate: value => /^[0-9a-f]{4,40}$/i.test(value) ? undefined : 'Enter 4 to 40 hexadecimal characters'
+  }
+};
+
+// git is run with --perl-regexp, which accepts the same everyday syntax as JavaScript (\d, \b, lookaheads)
+function validateRegex(value: string): string | undefined {
+  try {
+    new RegExp(value);
+    return undefined;
+  } catch {
+    return 'Invalid regular expression';
+  }
+}
+
+// git also understands relative dates like "2 weeks ago", so only reject obvious typos
+function validateDate(value: string): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value) && isNaN(Date.parse(value))) {
+    return 'Invalid date';
+  }
+  return undefined;
+}
+
+export function isLogFilterEmpty(filter: LogFilter | undefined): boolean {
+  return !filter || (Object.keys(FILTER_FIELDS) as FilterField[]).every(field => !filter[field]);
+}
+
+export function describeLogFilter(filter: LogFilter): string {
+  return (Object.keys(FILTER_FIELDS) as FilterField[])
+    .filter(field => filter[field])
+    .map(field => `${FILTER_FIELDS[field].label.toLowerCase()}: ${filter[field]}`)
+    .join(', ');
+}
+
+// Lets the user edit one field at a time; returns undefined when the picker is dismissed
+export async function promptForLogFilter(current: LogFilter | undefined): Promise<LogFilter | undefined> {
+  const filter: LogFilter = { ...current };
+
+  const items = (Object.keys(FILTER_FIELDS) as FilterField[]).map(field => ({
+    label: FILTER_FIELDS[field].label,
+    description: filter[field] || '',
+    field
+  }));
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Filter File History',
+    placeHolder: 'Choose what to filter by'
+  });
+  if (!picked) {
+    return undefined;
+  }
+
+  const info = FILTER_FIELDS[picked.field];
+  const value = await vscode.window.showInputBox({
+    title: `Filter File History: ${info.label}`,
+    prompt: `${info.prompt}. Leave empty to remove.`,
+    placeHolder: info.placeHolder,
+    value: filter[picked.field] || '',
+    validateInput: input => input.trim() ? info.validate(input.trim()) : undefined
+  });
+  if (value === undefined) {
+    return undefined;
+  }
+
+  filter[picked.field] = value.trim() || undefined;
+  return filter;
+}
@@ -1,7 +1,14 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GitService } from './gitService';
-import { CommitItem, FolderItem, FileItem, LoadMoreItem, EmptyStateItem, BackButtonItem, FoldAllButtonItem, UnfoldAllButtonItem, CommitData, FileStatus } from './treeItems';
+import { GitService, LineRange, LogFilter, ChangedFile, FileStat, ALL_REFS } from './gitService';
+import { GitServiceManager } from './gitServiceManager';
+import { CommitItem, FolderItem, FileItem, LoadMoreItem, EmptyStateItem, BackButtonItem, FoldAllButtonItem, UnfoldAllButtonItem, LineRangeHeaderItem, SymbolHeaderItem, FilterHeaderItem, WorkingTreeChangesItem, MergeParentHeaderItem, CommitData, FileStatus, FolderStat } from './treeItems';
+import { SymbolTarget } from './symbols';
+import { describeLogFilter, isLogFilterEmpty } from './historyFilter';
+import { describeRef } from './refPicker';
+
+// Workspace state key for the ref picked per repository root
+const SELECTED_REFS_KEY = 'gitHistory.selectedRefs';
 
 export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> =
@@ -14,16 +21,42 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
   private currentPage: Map<string, number> = new Map();
   private commitFiles: Map<string, Map<string, vscode.TreeItem[]>> = new Map(); // commitHash -> folderPath -> items
   private focusedCommitHash: string | undefined;
+  private lineRange: { filePath: string; range: LineRange; symbol?: SymbolTarget } | undefined;
+  private filter: LogFilter | undefined;
+  private mergeParents: Map<string, number> = new Map(); // merge commit hash -> parent picked to compare with, 0 for combined
   private allFoldersExpanded: boolean = false;
   private manualFoldState: 'folded' | 'unfolded' | 'auto' = 'auto';
+  private foldGeneration: number = 0; // part of folder ids, bumped whenever folders are forced open or closed
+
+  constructor(private gitServices: GitServiceManager, private workspaceState: vscode.Memento) {
+    gitServices.onDidChangeRepositories(() => {
+      this.loadedCommits.clear();
+      this.commitFiles.clear();
+      this.refresh();
+    });
 
-  constructor(private gitService: GitService) {
     vscode.window.onDidChangeActiveTextEditor(editor => {
       if (editor) {
         this.handleEditorChange(editor);
       }
     });
 
+    // Saving can add or remove the uncommitted changes entry
+    vscode.workspace.onDidSaveTextDocument(document => {
+      if (document.fileName === this.currentFilePath) {
+        this.refresh();
+      }
+    });
+
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('gitHistory.changedFilesSort') ||
+          e.affectsConfiguration('gitHistory.changedFilesLayout') ||
+          e.affectsConfiguration('gitHistory.compactFolders')) {
+        this.commitFiles.clear();
+        this.refresh();
+      }
+    });
+
     if (vscode.window.activeTextEditor) {
       this.handleEditorChange(vscode.window.activeTextEditor);
     }
@@ -47,6 +80,10 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
     if (this.focusedCommitHash && filePath !== this.currentFilePath) {
       this.focusedCommitHash = undefined;
     }
+
+    if (this.lineRange && filePath !== this.lineRange.filePath) {
+      this.lineRange = undefined;
+    }
     
     this.setCurrentFile(filePath);
   }
@@ -54,8 +91,9 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
   private setCurrentFile(filePath: string): void {
     if (filePath !== this.currentFilePath) {
       this.currentFilePath = filePath;
-      this.loadedCommits.delete(filePath);
-      this.currentPage.set(filePath, 0);
+      const historyKey = this.getHistoryKey(filePath);
+      this.loadedCommits.delete(historyKey);
+      this.currentPage.set(historyKey, 0);
       this.commitFiles.clear();
       this.refresh();
     }
@@ -65,6 +103,7 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
     this.focusedCommitHash = commitHash;
     this.allFoldersExpanded = true;
     this.manualFoldState = 'unfolded';
+    this.foldGeneration++;
     this.refresh();
   }
 
@@ -72,13 +111,137 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
     this.focusedCommitHash = undefined;
     this.allFoldersExpanded = false;
     this.manualFoldState = 'auto';
+    this.foldGeneration++;
     this.refresh();
   }
 
+  setLineRange(filePath: string, range: LineRange, symbol?: SymbolTarget): void {
+    this.focusedCommitHash = undefined;
+    this.lineRange = { filePath, range, symbol };
+    const historyKey = this.getHistoryKey(filePath);
+    this.loadedCommits.delete(historyKey);
+    this.currentPage.set(historyKey, 0);
+    if (filePath !== this.currentFilePath) {
+      this.setCurrentFile(filePath);
+    } else {
+      this.refresh();
+    }
+  }
+
+  clearLineRange(): void {
+    this.lineRange = undefined;
+    this.refresh();
+  }
+
+  getFilter(): LogFilter | undefined {
+    return this.filter;
+  }
+
+  // The filter applies to file and line range history alike and stays set across files
+  setFilter(filter: LogFilter | undefined): void {
+    this.filter = isLogFilterEmpty(filter) ? undefined : filter;
+    this.loadedCommits.clear();
+    this.currentPage.clear();
+    vscode.commands.executeCommand('setContext', 'gitHistory.hasHistoryFilter', !!this.filter);
+    this.refresh();
+  }
+
+  getCurrentFilePath(): string | undefined {
+    return this.currentFilePath;
+  }
+
+  getMergeParent(commitHash: string): number | undefined {
+    return this.mergeParents.get(commitHash);
+  }
+
+  private isMergeCommit(commitHash: string): boolean {
+    for (const commits of this.loadedCommits.values()) {
+      const commit = commits.find(c => c.hash === commitHash);
+      if (commit) {
+        return (commit.parents?.length || 0) > 1;
+      }
+    }
+    return false;
+  }
+
+  setMergeParent(commitHash: string, parentNumber: number): void {
+    this.mergeParents.set(commitHash, parentNumber);
+    this.commitFiles.delete(commitHash);
+    this.refresh();
+  }
+
+  // Refs are remembered per repository since branch names differ between repositories
+  getSelectedRef(filePath: string | undefined = this.currentFilePath): string | undefined {
+    const repoRoot = filePath ? this.getGitService(filePath)?.getRepoRoot(filePath) : undefined;
+    if (!repoRoot) {
+      return undefined;
+    }
+    return this.workspaceState.get<Record<string, string>>(SELECTED_REFS_KEY, {})[repoRoot];
+  }
+
+  async setSelectedRef(ref: string | undefined): Promise<void> {
+    const filePath = this.currentFilePath;
+    const repoRoot = filePath ? this.getGitService(filePath)?.getRepoRoot(filePath) : undefined;
+    if (!repoRoot) {
+      return;
+    }
+
+    await this.storeSelectedRef(repoRoot, ref);
+
+    this.loadedCommits.clear();
+    this.currentPage.clear();
+    this.refresh();
+  }
+
+  private async storeSelectedRef(repoRoot: string, ref: string | undefined): Promise<void> {
+    const selectedRefs = { ...this.workspaceState.get<Record<string, string>>(SELECTED_REFS_KEY, {}) };
+    if (ref) {
+      selectedRefs[repoRoot] = ref;
+    } else {
+      delete selectedRefs[repoRoot];
+    }
+    await this.workspaceState.update(SELECTED_REFS_KEY, selectedRefs);
+  }
+
+  // Forgets a remembered ref that no longer resolves, so the history falls back to HEAD
+  private async dropMissingSelectedRef(filePath: string): Promise<boolean> {
+    const ref = this.getSelectedRef(filePath);
+    const gitService = this.getGitService(filePath);
+    const repoRoot = gitService?.getRepoRoot(filePath);
+    if (!ref || ref === ALL_REFS || !gitService || !repoRoot || await gitService.refExists(filePath, ref)) {
+      return false;
+    }
+
+    console.log(`[GitHistory] Selected ref ${ref} no longer exists, showing HEAD`);
+    await this.storeSelectedRef(repoRoot, undefined);
+    vscode.window.showWarningMessage(`Git History: ${ref} no longer exists, showing history from HEAD`);
+    // Updates the view description
+    this.refresh();
+    return true;
+  }
+
+  // Shown as the view description; line range history is always read from the working tree
+  getRefDescription(): string | undefined {
+    if (this.lineRange || this.focusedCommitHash) {
+      return undefined;
+    }
+    return describeRef(this.getSelectedRef());
+  }
+
+  // Steps back one level: focused commit -> line range history -> file history
+  goBack(): void {
+    if (this.focusedCommitHash) {
+      this.clearFocusedCommit();
+    } else {
+      this.clearLineRange();
+    }
+  }
+
   foldAll(): void {
     console.log('Folding all folders');
     this.manualFoldState = 'folded';
     this.allFoldersExpanded = false;
+    this.foldGeneration++;
     // Clear the cached tree so it rebuilds with collapsed folders
     if (this.focusedCommitHash) {
       console.log('Clearing cache for commit:', this.focusedCommitHash);
@@ -91,6 +254,7 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
     console.log('Unfolding all folders');
     this.manualFoldState = 'unfolded';
     this.allFoldersExpanded = true;
+    this.foldGeneration++;
     // Clear the cached tree so it rebuilds with expanded folders
     if (this.focusedCommitHash) {
       console.log('Clearing cache for commit:', this.focusedCommitHash);
@@ -108,22 +272,48 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
   }
 
   async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
-    if (!this.gitService.isValidRepo()) {
+    if (!this.currentFilePath) {
+      return [new EmptyStateItem('Open a file to see git history')];
+    }
+
+    const gitService = this.getGitService(this.currentFilePath);
+    if (!gitService || !(await gitService.isValidRepo())) {
       return [new EmptyStateItem('Not a git repository')];
     }
 
-    if (!this.currentFilePath) {
-      return [new EmptyStateItem('Open a file to see git history')];
+    if (!element) {
+      // Fold all / unfold all are only shown in the view title while a commit's files are focused
+      vscode.commands.executeCommand('setContext', 'gitHistory.showingCommitFiles', !!this.focusedCommitHash);
     }
 
     // If we're focused on a specific commit, show only that commit's files
     if (this.focusedCommitHash && !element) {
       const files = await this.getFilesForCommit(this.focusedCommitHash);
-      return [new BackButtonItem(), ...files];
+      const parentNumber = this.mergeParents.get(this.focusedCommitHash);
+      const mergeHeader = parentNumber !== undefined || this.isMergeCommit(this.focusedCommitHash)
+        ? [new MergeParentHeaderItem(this.focusedCommitHash, parentNumber ?? 1)]
+        : [];
+      return [new BackButtonItem(), ...mergeHeader, ...files];
+    }
+
+    if (this.lineRange && !element) {
+      const { filePath, range, symbol } = this.lineRange;
+      const commits = await this.getCommitsForFile(filePath);
+      const header = symbol
+        ? new SymbolHeaderItem(symbol.name, symbol.kind, filePath, range.startLine, range.endLine)
+        : new LineRangeHeaderItem(filePath, range.startLine, range.endLine);
+      return [
+        new BackButtonItem('← Back to file history'),
+        header,
+        ...this.getFilterHeader(),
+        ...commits
+      ];
     }
 
     if (!element) {
-      return this.getCommitsForFile(this.currentFilePath);
+      const changes = await this.getWorkingTreeChanges(this.currentFilePath);
+      const commits = await this.getCommitsForFile(this.currentFilePath);
+      return [...this.getFilterHeader(), ...changes, ...commits];
     }
 
     if (element instanceof CommitItem) {
@@ -144,18 +334,77 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
     return [];
   }
 
+  // Line range history is cached separately so switching back keeps the file's pages
+  private getHistoryKey(filePath: string): string {
+    if (this.lineRange && this.lineRange.filePath === filePath) {
+      const { startLine, endLine } = this.lineRange.range;
+      return `${filePath}#L${startLine}-${endLine}`;
+    }
+    const ref = this.getSelectedRef(filePath);
+    return ref ? `${filePath}@${ref}` : filePath;
+  }
+
+  // Only shown above the unfiltered history from HEAD, which is where they'd be committed
+  private async getWorkingTreeChanges(filePath: string): Promise<vscode.TreeItem[]> {
+    const gitService = this.getGitService(filePath);
+    if (!gitService || this.filter || this.getSelectedRef(filePath)) {
+      return [];
+    }
+
+    const status = await gitService.getWorkingTreeStatus(filePath);
+    const items: vscode.TreeItem[] = [];
+    if (status.unstaged) {
+      items.push(new WorkingTreeChangesItem(filePath, false));
+    }
+    if (status.staged) {
+      items.push(new WorkingTreeChangesItem(filePath, true));
+    }
+    return items;
+  }
+
+  private getFilterHeader(): vscode.TreeItem[] {
+    return this.filter ? [new FilterHeaderItem(describeLogFilter(this.filter))] : [];
+  }
+
+  private getGitService(filePath: string): GitService | undefined {
+    return this.gitServices.getServiceForFile(filePath);
+  }
+
+  private async fetchLog(filePath: string, page: number): Promise<CommitData[]> {
+    const gitService = this.getGitService(filePath);
+    if (!gitService) {
+      return [];
+    }
+    if (this.lineRange && this.lineRange.filePath === filePath) {
+      return gitService.getLineRangeLog(filePath, this.lineRange.range, page, this.filter);
+    }
+    return gitService.getLog(filePath, page, this.filter, this.getSelectedRef(filePath));
+  }
+
   private async getCommitsForFile(filePath: string): Promise<vscode.TreeItem[]> {
-    const page = this.currentPage.get(filePath) || 0;
-    let commits = this.loadedCommits.get(filePath);
+    let historyKey = this.getHistoryKey(filePath);
+    if (!this.loadedCommits.has(historyKey) && !this.lineRange && await this.dropMissingSelectedRef(filePath)) {
+      historyKey = this.getHistoryKey(filePath);
+    }
+    const page = this.currentPage.get(historyKey) || 0;
+    let commits = this.loadedCommits.get(historyKey);
 
     if (!commits) {
-      commits = await this.gitService.getLog(filePath, 0);
-      this.loadedCommits.set(filePath, commits);
-      this.currentPage.set(filePath, 0);
+      commits = await this.fetchLog(filePath, 0);
+      this.loadedCommits.set(historyKey, commits);
+      this.currentPage.set(historyKey, 0);
     }
 
     if (commits.length === 0) {
-      return [new EmptyStateItem('No history found for this file')];
+      let emptyMessage = 'No history found for this file';
+      if (this.filter) {
+        emptyMessage = 'No commits match the filter';
+      } else if (this.lineRange) {
+        emptyMessage = this.lineRange.symbol
+          ? `No history found for ${this.lineRange.symbol.name}`
+          : 'No history found for these lines';
+      }
+      return [new EmptyStateItem(emptyMessage)];
     }
 
     const items: vscode.TreeItem[] = commits.map(commit =>
@@ -182,8 +431,17 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
     }
 
     console.log('Building new tree');
-    const files = await this.gitService.getChangedFiles(commitHash, this.currentFilePath);
-    const tree = this.buildFileTree(files, commitHash);
+    const gitService = this.currentFilePath ? this.getGitService(this.currentFilePath) : undefined;
+    if (!gitService) {
+      return [];
+    }
+    const mergeParent = this.mergeParents.get(commitHash);
+    const [files, stats] = await Promise.all([
+      gitService.getChangedFiles(commitHash, this.currentFilePath, mergeParent),
+      gitService.getFileStats(commitHash, this.currentFilePath!, mergeParent)
+    ]);
+    const repoRoot = gitService.getRepoRoot(this.currentFilePath!);
+    const tree = this.buildFileTree(files, commitHash, repoRoot, stats);
     this.commitFiles.set(commitHash, tree);
     
     // Handle folder expansion based on manual fold state
@@ -198,6 +456,16 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
       console.log('Expanding to current file (auto mode)');
       this.expandFoldersToCurrentFile(tree, commitHash);
     }
+
+    // VS Code remembers expansion by id and ignores collapsibleState for items it has seen,
+    // so folders get new ids whenever they are forced open or closed
+    for (const items of tree.values()) {
+      for (const item of items) {
+        if (item instanceof FolderItem) {
+          item.id = `${commitHash}:${mergeParent ?? 1}:${this.foldGeneration}:${item.folderPath}`;
+        }
+      }
+    }
     
     return tree.get('') || [];
   }
@@ -208,9 +476,9 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
     }
     
     // Get relative path of current file from the appropriate repo
-    const repo = this.gitService['getRepoForFile'](this.currentFilePath);
-    const relativePath = repo 
-      ? this.gitService['getRelativePathForRepo'](this.currentFilePath, repo.root)
+    const gitService = this.getGitService(this.currentFilePath);
+    const relativePath = gitService
+      ? gitService.getRelativePath(this.currentFilePath)
       : this.currentFilePath;
     
     // Find which file in the tree matches the current file
@@ -239,13 +507,13 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
       const folderName = parts[i];
       currentFolderPath = currentFolderPath ? `${currentFolderPath}/${folderName}` : folderName;
       
-      // Find and expand this folder
+      // Find and expand this folder (compacted folders are matched by their deepest path)
       for (const [parentPath, items] of tree.entries()) {
         for (let j = 0; j < items.length; j++) {
           const item = items[j];
           if (item instanceof FolderItem && item.folderPath === currentFolderPath) {
             // Create new expanded folder
-            const expandedFolder = new FolderItem(folderName, currentFolderPath, vscode.TreeItemCollapsibleState.Expanded);
+            const expandedFolder = new FolderItem(item.folderName, currentFolderPath, vscode.TreeItemCollapsibleState.Expanded, item.stat);
             items[j] = expandedFolder;
           }
         }
@@ -253,10 +521,34 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
     }
   }
 
-  private buildFileTree(files: {path: string; status: 'added' | 'modified' | 'deleted' | 'unchanged'}[], commitHash: string): Map<string, vscode.TreeItem[]> {
+  private buildFileTree(files: ChangedFile[], commitHash: string, repoRoot?: string, stats?: Map<string, FileStat>): Map<string, vscode.TreeItem[]> {
     const tree = new Map<string, vscode.TreeItem[]>();
     const folderMap = new Map<string, FolderItem>();
 
+    // Add up line counts for every folder above each file
+    const folderStats = new Map<string, FolderStat>();
+    for (const fileInfo of files) {
+      const stat = stats?.get(fileInfo.path);
+      if (!stat) {
+        continue;
+      }
+      const parts = fileInfo.path.split(/[\\/]/);
+      let folderPath = '';
+      for (let i = 0; i < parts.length - 1; i++) {
+        folderPath = folderPath ? `${folderPath}/${parts[i]}` : parts[i];
+        const total = folderStats.get(folderPath) || { additions: 0, deletions: 0, binaryFiles: 0 };
+        total.additions += stat.additions;
+        total.deletions += stat.deletions;
+        if (stat.binary) {
+          total.binaryFiles++;
+        }
+        folderStats.set(folderPath, total);
+      }
+    }
+
+    const config = vscode.workspace.getConfiguration('gitHistory');
+    const listLayout = config.get<string>('changedFilesLayout', 'tree') === 'list';
+
     // Sort files by path
     files.sort((a, b) => a.path.localeCompare(b.path));
 
@@ -265,6 +557,19 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
       const parts = filePath.split(/[\\/]/);
       let currentPath = '';
 
+      // List layout puts every file at the top level with its folder in the description
+      if (listLayout) {
+        const file = this.createFileItem(fileInfo, commitHash, repoRoot, stats);
+        const folderPath = parts.slice(0, -1).join('/');
+        if (folderPath) {
+          file.description = file.description ? `${folderPath} • ${file.description}` : folderPath;
+        }
+        const rootItems = tree.get('') || [];
+        rootItems.push(file);
+        tree.set('', rootItems);
+        continue;
+      }
+
       // Build folder hierarchy
       for (let i = 0; i < parts.length - 1; i++) {
         const folderName = parts[i];
@@ -275,7 +580,7 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
           const collapsibleState = this.allFoldersExpanded 
             ? vscode.TreeItemCollapsibleState.Expanded 
             : vscode.TreeItemCollapsibleState.Collapsed;
-          const folder = new FolderItem(folderName, currentPath, collapsibleState);
+          const folder = new FolderItem(folderName, currentPath, collapsibleState, folderStats.get(currentPath));
           folderMap.set(currentPath, folder);
 
           // Add to parent's children
@@ -286,12 +591,7 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
       }
 
       // Add file to its parent folder
-      const fileName = parts[parts.length - 1];
-      const isCurrentFile = this.currentFilePath === filePath || 
-                           this.currentFilePath?.endsWith(filePath) ||
-                           filePath.endsWith(path.basename(this.currentFilePath || ''));
-      
-      const file = new FileItem(fileName, commitHash, filePath, isCurrentFile, fileInfo.status);
+      const file = this.createFileItem(fileInfo, commitHash, repoRoot, stats);
       const parentPath = currentPath;
       
       const parentChildren = tree.get(parentPath) || [];
@@ -299,7 +599,18 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
       tree.set(parentPath, parentChildren);
     }
 
-    // Sort each folder's children: folders first, then files, both alphabetically
+    if (!listLayout && config.get('compactFolders', true)) {
+      compactFolderChains(tree, '');
+    }
+
+    // Sort each folder's children: folders first, then files, both alphabetically or by lines changed
+    const sortByChurn = config.get<string>('changedFilesSort', 'name') === 'churn';
+    const churn = (item: vscode.TreeItem) => {
+      const stat = item instanceof FolderItem || item instanceof FileItem ? item.stat : undefined;
+      return stat ? stat.additions + stat.deletions : 0;
+    };
+    // Files are compared by path so the list layout is ordered by folder too
+    const sortKey = (item: vscode.TreeItem) => item instanceof FileItem ? item.filePath : item.label!.toString();
     for (const [folderPath, items] of tree.entries()) {
       items.sort((a, b) => {
         const aIsFolder = a instanceof FolderItem;
@@ -311,14 +622,29 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
         if (!aIsFolder && bIsFolder) {
           return 1;
         }
+
+        if (sortByChurn && churn(a) !== churn(b)) {
+          return churn(b) - churn(a);
+        }
         
-        return a.label!.toString().localeCompare(b.label!.toString());
+        return sortKey(a).localeCompare(sortKey(b));
       });
     }
 
     return tree;
   }
 
+  private createFileItem(fileInfo: ChangedFile, commitHash: string, repoRoot?: string, stats?: Map<string, FileStat>): FileItem {
+    const filePath = fileInfo.path;
+    const fileName = path.basename(filePath);
+    const isCurrentFile = this.currentFilePath === filePath || 
+                         this.currentFilePath?.endsWith(filePath) ||
+                         filePath.endsWith(path.basename(this.currentFilePath || ''));
+    
+    return new FileItem(fileName, commitHash, filePath, isCurrentFile, fileInfo.status, repoRoot, fileInfo.oldPath, fileInfo.similarity, stats?.get(filePath));
+  }
+
+
   private findCommitHashForFolder(folder: FolderItem): string | undefined {
     for (const [commitHash, folders] of this.commitFiles.entries()) {
       for (const [folderPath, items] of folders.entries()) {
@@ -331,10 +657,38 @@ export class GitHistoryProvider implements vscode.TreeDataProvider<vscode.TreeIt
   }
 
   async loadMore(filePath: string, page: number): Promise<void> {
-    const newCommits = await this.gitService.getLog(filePath, page);
-    const existingCommits = this.loadedCommits.get(filePath) || [];
-    this.loadedCommits.set(filePath, [...existingCommits, ...newCommits]);
-    this.currentPage.set(filePath, page);
+    const historyKey = this.getHistoryKey(filePath);
+    const newCommits = await this.fetchLog(filePath, page);
+    const existingCommits = this.loadedCommits.get(historyKey) || [];
+    this.loadedCommits.set(historyKey, [...existingCommits, ...newCommits]);
+    this.currentPage.set(historyKey, page);
     this.refresh();
   }
 }
+
+// Merges folders whose only child is another folder into a single "a/b/c" item, like the Explorer does
+export function compactFolderChains(tree: Map<string, vscode.TreeItem[]>, parentPath: string): void {
+  const items = tree.get(parentPath) || [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (!(item instanceof FolderItem)) {
+      continue;
+    }
+
+    let folder = item;
+    let label = folder.folderName;
+    let children = tree.get(folder.folderPath) || [];
+    while (children.length === 1 && children[0] instanceof FolderItem) {
+      tree.delete(folder.folderPath);
+      folder = children[0];
+      label = `${label}/${folder.folderName}`;
+      children = tree.get(folder.folderPath) || [];
+    }
+
+    // The chain has the same files all the way down, so the deepest folder's totals apply
+    if (folder !== item) {
+      items[i] = new FolderItem(label, folder.folderPath, folder.collapsibleState, folder.stat);
+    }
+    compactFolderChains(tree, folder.folderPath);
+  }
+}
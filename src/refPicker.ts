@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { GitService, GitRef, ALL_REFS } from './gitService';
+
+interface RefPickItem extends vscode.QuickPickItem {
+  ref?: string; // undefined for HEAD
+}
+
+const REF_GROUPS: { type: GitRef['type']; label: string; icon: string }[] = [
+  { type: 'branch', label: 'Branches', icon: 'git-branch' },
+  { type: 'remote', label: 'Remote branches', icon: 'cloud' },
+  { type: 'tag', label: 'Tags', icon: 'tag' }
+];
+
+export function describeRef(ref: string | undefined): string | undefined {
+  return ref === ALL_REFS ? 'all refs' : ref;
+}
+
+// Resolves to null when the picker is dismissed, undefined when HEAD is picked
+export async function pickRef(gitService: GitService, filePath: string, current: string | undefined): Promise<string | undefined | null> {
+  const refs = await gitService.getRefs(filePath);
+
+  const items: RefPickItem[] = [
+    { label: '$(home) HEAD', description: 'Current checkout', ref: undefined },
+    { label: '$(globe) All refs', description: 'Every branch, remote branch and tag', ref: ALL_REFS }
+  ];
+  for (const group of REF_GROUPS) {
+    const groupRefs = refs.filter(ref => ref.type === group.type);
+    if (groupRefs.length === 0) {
+      continue;
+    }
+    items.push({ label: group.label, kind: vscode.QuickPickItemKind.Separator });
+    items.push(...groupRefs.map(ref => ({ label: `$(${group.icon}) ${ref.name}`, ref: ref.name })));
+  }
+
+  for (const item of items) {
+    if (item.kind !== vscode.QuickPickItemKind.Separator && item.ref === current) {
+      item.description = item.description ? `${item.description} (selected)` : 'selected';
+    }
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Show File History From',
+    placeHolder: 'Choose a branch, tag or remote branch',
+    matchOnDescription: true
+  });
+  return picked ? picked.ref : null;
+}
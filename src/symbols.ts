@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+
+export interface SymbolTarget {
+  name: string;
+  kind: vscode.SymbolKind;
+  range: vscode.Range;
+}
+
+// Symbol kinds that have a body worth tracking through history
+const HISTORY_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Struct,
+  vscode.SymbolKind.Enum,
+  vscode.SymbolKind.Module,
+  vscode.SymbolKind.Namespace
+]);
+
+export async function getDocumentSymbols(document: vscode.TextDocument): Promise<SymbolTarget[]> {
+  let result: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+  try {
+    result = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+      'vscode.executeDocumentSymbolProvider',
+      document.uri
+    );
+  } catch (error) {
+    console.error('Error fetching document symbols:', error);
+    return [];
+  }
+
+  const symbols: SymbolTarget[] = [];
+  const collect = (items: (vscode.DocumentSymbol | vscode.SymbolInformation)[]) => {
+    for (const item of items) {
+      // Providers return either hierarchical DocumentSymbols or flat SymbolInformation
+      const range = 'location' in item ? item.location.range : item.range;
+      if (HISTORY_SYMBOL_KINDS.has(item.kind)) {
+        symbols.push({ name: item.name, kind: item.kind, range });
+      }
+      if ('children' in item && item.children.length > 0) {
+        collect(item.children);
+      }
+    }
+  };
+  collect(result || []);
+
+  return symbols;
+}
+
+export async function findSymbolAtPosition(document: vscode.TextDocument, position: vscode.Position): Promise<SymbolTarget | undefined> {
+  const symbols = await getDocumentSymbols(document);
+
+  // Pick the innermost symbol so a method wins over its enclosing class
+  let best: SymbolTarget | undefined;
+  for (const symbol of symbols) {
+    if (!symbol.range.contains(position)) {
+      continue;
+    }
+    if (!best || best.range.contains(symbol.range)) {
+      best = symbol;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { parseRefDecorations, parseNameStatus, parseNumstat, parseCommitMessage } from '../gitService';
+
+suite('parseRefDecorations', () => {
+	test('HEAD attached to a branch', () => {
+		assert.deepStrictEqual(parseRefDecorations('HEAD -> refs/heads/feature, refs/remotes/origin/feature, tag: refs/tags/v1.0'), [
+			{ name: 'HEAD', type: 'head', target: 'feature' },
+			{ name: 'feature', type: 'branch' },
+			{ name: 'origin/feature', type: 'remote' },
+			{ name: 'v1.0', type: 'tag' }
+		]);
+	});
+
+	test('detached HEAD on a commit a branch also points to', () => {
+		assert.deepStrictEqual(parseRefDecorations('HEAD, refs/heads/feature'), [
+			{ name: 'HEAD', type: 'head' },
+			{ name: 'feature', type: 'branch' }
+		]);
+	});
+
+	test('no decorations', () => {
+		assert.deepStrictEqual(parseRefDecorations(''), []);
+	});
+});
+
+suite('parseNameStatus', () => {
+	test('copies, renames, modifications and additions', () => {
+		assert.deepStrictEqual(parseNameStatus('C100\0src.txt\0copy.txt\0R094\0a.txt\0docs/b.txt\0M\0img.bin\0A\0new.txt\0D\0old.txt\0'), [
+			{ oldPath: 'src.txt', path: 'copy.txt', status: 'copied', similarity: 100 },
+			{ oldPath: 'a.txt', path: 'docs/b.txt', status: 'renamed', similarity: 94 },
+			{ path: 'img.bin', status: 'modified' },
+			{ path: 'new.txt', status: 'added' },
+			{ path: 'old.txt', status: 'deleted' }
+		]);
+	});
+
+	test('non-ASCII paths are kept as is', () => {
+		assert.deepStrictEqual(parseNameStatus('A\0é.txt\0R100\0日本.txt\0dir/日本.txt\0'), [
+			{ path: 'é.txt', status: 'added' },
+			{ oldPath: '日本.txt', path: 'dir/日本.txt', status: 'renamed', similarity: 100 }
+		]);
+	});
+
+	test('combined diff of a merge', () => {
+		assert.deepStrictEqual(parseNameStatus('MM\0x\0AA\0é.txt\0'), [
+			{ path: 'x', status: 'modified' },
+			{ path: 'é.txt', status: 'modified' }
+		]);
+	});
+
+	test('leading newline from git show -m', () => {
+		assert.deepStrictEqual(parseNameStatus('\nM\0a.txt\0'), [
+			{ path: 'a.txt', status: 'modified' }
+		]);
+	});
+});
+
+suite('parseNumstat', () => {
+	test('renames and copies are keyed by their new path', () => {
+		// Joined from parts, since a NUL followed by a digit would read as an octal escape
+		const stats = parseNumstat(['0\t0\t', 'src.txt', 'copy.txt', '1\t0\t', 'a.txt', 'docs/b.txt', ''].join('\0'));
+		assert.deepStrictEqual([...stats.entries()], [
+			['copy.txt', { additions: 0, deletions: 0, binary: false }],
+			['docs/b.txt', { additions: 1, deletions: 0, binary: false }]
+		]);
+	});
+
+	test('binary files and non-ASCII paths', () => {
+		const stats = parseNumstat('-\t-\timg.bin\0' + '12\t3\té.txt\0');
+		assert.deepStrictEqual([...stats.entries()], [
+			['img.bin', { additions: 0, deletions: 0, binary: true }],
+			['é.txt', { additions: 12, deletions: 3, binary: false }]
+		]);
+	});
+
+	test('leading newline from git show -m', () => {
+		assert.deepStrictEqual([...parseNumstat('\n4\t1\ta.txt\0').entries()], [
+			['a.txt', { additions: 4, deletions: 1, binary: false }]
+		]);
+	});
+});
+
+suite('parseCommitMessage', () => {
+	test('trailers are removed from the body', () => {
+		assert.deepStrictEqual(parseCommitMessage('Fix the thing\n\nLonger explanation.\n\nSigned-off-by: A <a@example.com>\nReviewed-by: B <b@example.com>\n',
+			'Signed-off-by: A <a@example.com>\nReviewed-by: B <b@example.com>\n'), {
+			subject: 'Fix the thing',
+			body: 'Longer explanation.',
+			trailers: [
+				{ key: 'Signed-off-by', value: 'A <a@example.com>' },
+				{ key: 'Reviewed-by', value: 'B <b@example.com>' }
+			]
+		});
+	});
+
+	test('a body with only trailers', () => {
+		assert.deepStrictEqual(parseCommitMessage('Fix the thing\n\nCo-authored-by: B <b@example.com>\n', 'Co-authored-by: B <b@example.com>\n'), {
+			subject: 'Fix the thing',
+			body: '',
+			trailers: [{ key: 'Co-authored-by', value: 'B <b@example.com>' }]
+		});
+	});
+
+	test('a paragraph git did not parse as trailers stays in the body', () => {
+		assert.deepStrictEqual(parseCommitMessage('Fix the thing\n\nNote: keep this\n', ''), {
+			subject: 'Fix the thing',
+			body: 'Note: keep this',
+			trailers: []
+		});
+	});
+
+	test('subject only', () => {
+		assert.deepStrictEqual(parseCommitMessage('Fix the thing\n', ''), {
+			subject: 'Fix the thing',
+			body: '',
+			trailers: []
+		});
+	});
+});
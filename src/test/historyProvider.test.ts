@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { compactFolderChains } from '../historyProvider';
+import { FileItem, FolderItem } from '../treeItems';
+
+function folder(folderPath: string): FolderItem {
+	const stat = { additions: 1, deletions: 0, binaryFiles: 0 };
+	return new FolderItem(folderPath.split('/').pop()!, folderPath, vscode.TreeItemCollapsibleState.Collapsed, stat);
+}
+
+function file(filePath: string): FileItem {
+	return new FileItem(filePath.split('/').pop()!, 'abc123', filePath);
+}
+
+// Labels of each folder's children, keyed by folder path
+function labels(tree: Map<string, vscode.TreeItem[]>): Record<string, string[]> {
+	const result: Record<string, string[]> = {};
+	for (const [folderPath, items] of tree.entries()) {
+		result[folderPath] = items.map(item => item.label!.toString());
+	}
+	return result;
+}
+
+suite('compactFolderChains', () => {
+	test('folders with a single folder child are merged', () => {
+		const tree = new Map<string, vscode.TreeItem[]>([
+			['', [folder('src'), file('README.md')]],
+			['src', [folder('src/main')]],
+			['src/main', [folder('src/main/java')]],
+			['src/main/java', [file('src/main/java/App.java'), file('src/main/java/Util.java')]]
+		]);
+		compactFolderChains(tree, '');
+		assert.deepStrictEqual(labels(tree), {
+			'': ['src/main/java', 'README.md'],
+			'src/main/java': ['App.java', 'Util.java']
+		});
+
+		const compacted = tree.get('')![0] as FolderItem;
+		assert.strictEqual(compacted.folderPath, 'src/main/java');
+		assert.deepStrictEqual(compacted.stat, { additions: 1, deletions: 0, binaryFiles: 0 });
+	});
+
+	test('a folder with several children ends the chain', () => {
+		const tree = new Map<string, vscode.TreeItem[]>([
+			['', [folder('a')]],
+			['a', [folder('a/b')]],
+			['a/b', [folder('a/b/c'), folder('a/b/d')]],
+			['a/b/c', [folder('a/b/c/e')]],
+			['a/b/c/e', [file('a/b/c/e/x.ts')]],
+			['a/b/d', [file('a/b/d/y.ts')]]
+		]);
+		compactFolderChains(tree, '');
+		assert.deepStrictEqual(labels(tree), {
+			'': ['a/b'],
+			'a/b': ['c/e', 'd'],
+			'a/b/c/e': ['x.ts'],
+			'a/b/d': ['y.ts']
+		});
+	});
+
+	test('a folder with a single file is kept', () => {
+		const tree = new Map<string, vscode.TreeItem[]>([
+			['', [folder('é')]],
+			['é', [file('é/ü.txt')]]
+		]);
+		compactFolderChains(tree, '');
+		assert.deepStrictEqual(labels(tree), {
+			'': ['é'],
+			'é': ['ü.txt']
+		});
+	});
+});
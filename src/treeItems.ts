@@ -1,11 +1,45 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { formatRelativeTime } from './formatting';
+import { FileStat } from './gitService';
 
 export interface CommitData {
   hash: string;
   message: string;
   author: string;
+  authorEmail?: string;
   date: string;
+  range?: { startLine: number; endLine: number };
+  refs?: { name: string; type: 'head' | 'branch' | 'remote' | 'tag'; target?: string }[];
+  parents?: string[];
+}
+
+type CommitRef = NonNullable<CommitData['refs']>[number];
+
+// Tree descriptions are plain text, so ref types are told apart by a prefix here
+// and by icon and color in the tooltip and the commit icon
+const REF_STYLES: Record<CommitRef['type'], { badge: string; icon: string; color: string }> = {
+  head: { badge: 'HEAD', icon: 'target', color: 'charts.green' },
+  branch: { badge: '⎇ ', icon: 'git-branch', color: 'charts.blue' },
+  remote: { badge: '☁ ', icon: 'cloud', color: 'charts.purple' },
+  tag: { badge: '🏷 ', icon: 'tag', color: 'charts.yellow' }
+};
+
+// Most notable ref first, so it decides the commit icon
+const REF_PRIORITY: CommitRef['type'][] = ['head', 'tag', 'branch', 'remote'];
+
+function formatRefBadges(refs: CommitRef[]): string {
+  const badges: string[] = [];
+  // The checked out branch is shown with HEAD instead of on its own; a detached HEAD has no target
+  const checkedOut = refs.find(ref => ref.type === 'head')?.target;
+  for (const ref of refs) {
+    if (ref.type === 'head') {
+      badges.push(ref.target ? `HEAD → ${ref.target}` : 'HEAD');
+    } else if (ref.type !== 'branch' || ref.name !== checkedOut) {
+      badges.push(`${REF_STYLES[ref.type].badge}${ref.name}`);
+    }
+  }
+  return badges.map(badge => `[${badge}]`).join(' ');
 }
 
 export class CommitItem extends vscode.TreeItem {
@@ -20,16 +54,116 @@ export class CommitItem extends vscode.TreeItem {
 
     super(displayMessage, vscode.TreeItemCollapsibleState.None);
 
+    const refs = commit.refs || [];
+    const isMerge = (commit.parents?.length || 0) > 1;
     this.description = `${commit.author} • ${formatRelativeTime(commit.date)}`;
     this.tooltip = `${commit.message}\n\nAuthor: ${commit.author}\nDate: ${commit.date}\nHash: ${commit.hash}`;
-    this.contextValue = 'commit';
-    this.iconPath = new vscode.ThemeIcon('git-commit');
+    this.contextValue = isMerge ? 'mergeCommit' : 'commit';
+    this.iconPath = new vscode.ThemeIcon(isMerge ? 'git-merge' : 'git-commit');
+
+    if (refs.length > 0) {
+      this.description = `${formatRefBadges(refs)} ${this.description}`;
+
+      const tooltip = new vscode.MarkdownString(undefined, true);
+      tooltip.appendText(commit.message);
+      tooltip.appendMarkdown('\n\n');
+      tooltip.appendMarkdown(refs.map(ref => `$(${REF_STYLES[ref.type].icon}) \`${ref.name}\``).join(' &nbsp; '));
+      tooltip.appendMarkdown('\n\n');
+      tooltip.appendText(`Author: ${commit.author}\nDate: ${commit.date}\nHash: ${commit.hash}`);
+      this.tooltip = tooltip;
+
+      // Merges keep their icon and only take the ref's color
+      const topRef = REF_PRIORITY.find(type => refs.some(ref => ref.type === type))!;
+      this.iconPath = new vscode.ThemeIcon(isMerge ? 'git-merge' : REF_STYLES[topRef].icon, new vscode.ThemeColor(REF_STYLES[topRef].color));
+    }
 
     // Clicking on commit only shows diff for current file, doesn't change sidebar view
     this.command = {
       command: 'gitHistory.viewDiff',
       title: 'View Diff',
-      arguments: [commit.hash, filePath]
+      arguments: [commit.hash, filePath, commit.range]
+    };
+  }
+}
+
+export class MergeParentHeaderItem extends vscode.TreeItem {
+  constructor(
+    public readonly commitHash: string,
+    public readonly parentNumber: number
+  ) {
+    super(parentNumber === 0 ? 'Combined diff' : `Compared with parent ${parentNumber}`, vscode.TreeItemCollapsibleState.None);
+    this.description = parentNumber === 0 ? 'files changed relative to every parent' : undefined;
+    this.tooltip = 'Choose which parent of the merge to compare with';
+    this.contextValue = 'mergeParentHeader';
+    this.iconPath = new vscode.ThemeIcon('git-merge');
+    this.command = {
+      command: 'gitHistory.selectMergeParent',
+      title: 'Compare with Parent',
+      arguments: [commitHash]
+    };
+  }
+}
+
+export class WorkingTreeChangesItem extends vscode.TreeItem {
+  constructor(
+    public readonly filePath: string,
+    public readonly staged: boolean
+  ) {
+    super(staged ? 'Staged changes' : 'Uncommitted changes', vscode.TreeItemCollapsibleState.None);
+    this.description = staged ? 'HEAD ↔ index' : 'index ↔ working tree';
+    this.tooltip = staged
+      ? `Changes to ${path.basename(filePath)} staged for the next commit`
+      : `Changes to ${path.basename(filePath)} that are not staged yet`;
+    this.contextValue = staged ? 'stagedChanges' : 'uncommittedChanges';
+    this.iconPath = new vscode.ThemeIcon(staged ? 'check' : 'edit');
+    this.command = {
+      command: 'gitHistory.viewWorkingTreeDiff',
+      title: 'View Diff',
+      arguments: [filePath, staged]
+    };
+  }
+}
+
+export class LineRangeHeaderItem extends vscode.TreeItem {
+  constructor(
+    public readonly filePath: string,
+    public readonly startLine: number,
+    public readonly endLine: number
+  ) {
+    const lines = startLine === endLine ? `Line ${startLine}` : `Lines ${startLine}–${endLine}`;
+    super(`${lines} of ${path.basename(filePath)}`, vscode.TreeItemCollapsibleState.None);
+    this.tooltip = `History of ${lines.toLowerCase()} in ${filePath}`;
+    this.contextValue = 'lineRangeHeader';
+    this.iconPath = new vscode.ThemeIcon('list-selection');
+  }
+}
+
+export class SymbolHeaderItem extends vscode.TreeItem {
+  constructor(
+    public readonly symbolName: string,
+    public readonly symbolKind: vscode.SymbolKind,
+    public readonly filePath: string,
+    public readonly startLine: number,
+    public readonly endLine: number
+  ) {
+    super(symbolName, vscode.TreeItemCollapsibleState.None);
+    this.description = `${path.basename(filePath)}:${startLine}–${endLine}`;
+    this.tooltip = `History of ${symbolName} (lines ${startLine}–${endLine} of ${filePath})`;
+    this.contextValue = 'symbolHeader';
+    this.iconPath = new vscode.ThemeIcon(symbolIconName(symbolKind));
+  }
+}
+
+export class FilterHeaderItem extends vscode.TreeItem {
+  constructor(description: string) {
+    super('Filtered', vscode.TreeItemCollapsibleState.None);
+    this.description = description;
+    this.tooltip = `History filtered by ${description}`;
+    this.contextValue = 'historyFilter';
+    this.iconPath = new vscode.ThemeIcon('filter');
+    this.command = {
+      command: 'gitHistory.filterHistory',
+      title: 'Filter History'
     };
   }
 }
@@ -38,15 +172,41 @@ export class FolderItem extends vscode.TreeItem {
   constructor(
     public readonly folderName: string,
     public readonly folderPath: string,
-    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.Collapsed
+    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.Collapsed,
+    public readonly stat?: FolderStat // totals of the files below this folder
   ) {
     super(folderName, collapsibleState);
     this.contextValue = 'folder';
     this.iconPath = new vscode.ThemeIcon('folder');
+    if (stat) {
+      this.description = formatFolderStat(stat);
+    }
   }
 }
 
-export type FileStatus = 'modified' | 'added' | 'deleted' | 'unchanged';
+// Binary files have no line counts, so a folder counts them separately
+export interface FolderStat {
+  additions: number;
+  deletions: number;
+  binaryFiles: number;
+}
+
+export function formatFolderStat(stat: FolderStat): string {
+  const lines = `+${stat.additions} −${stat.deletions}`;
+  if (stat.binaryFiles === 0) {
+    return lines;
+  }
+  if (stat.additions === 0 && stat.deletions === 0) {
+    return 'binary';
+  }
+  return `${lines}, ${stat.binaryFiles} binary`;
+}
+
+export function formatFileStat(stat: FileStat): string {
+  return stat.binary ? 'binary' : `+${stat.additions} −${stat.deletions}`;
+}
+
+export type FileStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'unchanged';
 
 export class FileItem extends vscode.TreeItem {
   constructor(
@@ -54,11 +214,24 @@ export class FileItem extends vscode.TreeItem {
     public readonly commitHash: string,
     public readonly filePath: string,
     public readonly isCurrentFile: boolean = false,
-    public readonly status: FileStatus = 'modified'
+    public readonly status: FileStatus = 'modified',
+    public readonly repoRoot?: string,
+    public readonly oldPath?: string,
+    public readonly similarity?: number,
+    public readonly stat?: FileStat
   ) {
     super(fileName, vscode.TreeItemCollapsibleState.None);
 
     this.tooltip = `View diff for ${filePath}`;
+    if (oldPath) {
+      const similarityText = similarity !== undefined ? ` (${similarity}% similar)` : '';
+      this.description = `${status === 'copied' ? 'copied from' : '←'} ${oldPath}`;
+      this.tooltip = `${status === 'copied' ? 'Copied' : 'Renamed'} from ${oldPath} to ${filePath}${similarityText}`;
+    }
+    if (stat) {
+      this.description = this.description ? `${formatFileStat(stat)} • ${this.description}` : formatFileStat(stat);
+      this.tooltip = `${this.tooltip}\n${stat.binary ? 'Binary file' : `${stat.additions} added, ${stat.deletions} removed`}`;
+    }
     this.contextValue = isCurrentFile ? 'currentFile' : 'file';
     
     // Set icon and color based on status
@@ -77,6 +250,14 @@ export class FileItem extends vscode.TreeItem {
       case 'modified':
         iconColor = new vscode.ThemeColor('gitDecoration.modifiedResourceForeground');
         break;
+      case 'renamed':
+        iconColor = new vscode.ThemeColor('gitDecoration.renamedResourceForeground');
+        iconName = 'diff-renamed';
+        break;
+      case 'copied':
+        iconColor = new vscode.ThemeColor('gitDecoration.addedResourceForeground');
+        iconName = 'files';
+        break;
       default:
         iconColor = undefined;
     }
@@ -89,10 +270,13 @@ export class FileItem extends vscode.TreeItem {
       this.iconPath = new vscode.ThemeIcon(iconName, iconColor);
     }
 
+    // filePath is relative to the repository, the diff needs an absolute path to pick the right repo.
+    // The left side of a rename or copy is read from the old path
+    const toAbsolute = (relativePath: string) => repoRoot ? path.join(repoRoot, relativePath) : relativePath;
     this.command = {
       command: 'gitHistory.viewDiff',
       title: 'View Diff',
-      arguments: [commitHash, filePath]
+      arguments: [commitHash, toAbsolute(filePath), undefined, oldPath ? toAbsolute(oldPath) : undefined]
     };
   }
 }
@@ -120,8 +304,8 @@ export class EmptyStateItem extends vscode.TreeItem {
 }
 
 export class BackButtonItem extends vscode.TreeItem {
-  constructor() {
-    super('← Back to commit history', vscode.TreeItemCollapsibleState.None);
+  constructor(label: string = '← Back to commit history') {
+    super(label, vscode.TreeItemCollapsibleState.None);
     this.iconPath = new vscode.ThemeIcon('arrow-left');
     this.command = {
       command: 'gitHistory.backToHistory',
@@ -152,18 +336,24 @@ export class UnfoldAllButtonItem extends vscode.TreeItem {
   }
 }
 
-function formatRelativeTime(dateStr: string): string {
-  const date = new Date(dateStr);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffSecs = Math.floor(diffMs / 1000);
-  const diffMins = Math.floor(diffSecs / 60);
-  const diffHours = Math.floor(diffMins / 60);
-  const diffDays = Math.floor(diffHours / 24);
-
-  if (diffSecs < 60) {return 'just now';}
-  if (diffMins < 60) {return `${diffMins}m ago`;}
-  if (diffHours < 24) {return `${diffHours}h ago`;}
-  if (diffDays < 30) {return `${diffDays}d ago`;}
-  return date.toLocaleDateString();
+function symbolIconName(kind: vscode.SymbolKind): string {
+  switch (kind) {
+    case vscode.SymbolKind.Method:
+      return 'symbol-method';
+    case vscode.SymbolKind.Constructor:
+      return 'symbol-constructor';
+    case vscode.SymbolKind.Class:
+      return 'symbol-class';
+    case vscode.SymbolKind.Interface:
+      return 'symbol-interface';
+    case vscode.SymbolKind.Struct:
+      return 'symbol-struct';
+    case vscode.SymbolKind.Enum:
+      return 'symbol-enum';
+    case vscode.SymbolKind.Module:
+    case vscode.SymbolKind.Namespace:
+      return 'symbol-namespace';
+    default:
+      return 'symbol-function';
+  }
 }